@@ -1,12 +1,37 @@
+import { useState } from 'react'
 import './App.css'
+import ComparisonPanel from './ComparisonPanel'
+import DatasetSchemaEditor from './DatasetSchemaEditor'
+import { DatasetSchema, DEFAULT_SCHEMA } from './generators/dataset'
+import HistoryPanel from './HistoryPanel'
 import PdfCards from './PdfCards'
+import RegressionPanel from './RegressionPanel'
+import VisualDiffPanel from './VisualDiffPanel'
+import { HistoryEntry } from './utils/historyStore'
 
 function App() {
+  // Saved runs reopened from history for comparison against the current results
+  const [openedRuns, setOpenedRuns] = useState<HistoryEntry[]>([])
+  // Columns of the table every panel generates
+  const [schema, setSchema] = useState<DatasetSchema>(DEFAULT_SCHEMA)
+
   return (
     <>
       <h1>PDF Generation Benchmark</h1>
       <h4>The pdf generation benchmark is a tool that allows you to compare the performance of different pdf generation libraries on client side.</h4>
-      <PdfCards />
+      <DatasetSchemaEditor schema={schema} onChange={setSchema} />
+      <ComparisonPanel
+        schema={schema}
+        openedRuns={openedRuns}
+        onCloseRun={(id) => setOpenedRuns(runs => runs.filter(run => run.id !== id))}
+      />
+      <PdfCards schema={schema} />
+      <VisualDiffPanel schema={schema} />
+      <HistoryPanel
+        openedRunIds={openedRuns.map(run => run.id)}
+        onOpenRun={(entry) => setOpenedRuns(runs => [...runs, entry])}
+      />
+      <RegressionPanel />
     </>
   )
 }
@@ -0,0 +1,69 @@
+import { FC } from 'react';
+import { CAPACITY_LIMIT_LABELS, CapacityResult } from './utils/capacityFinder';
+import { formatBytes, formatTime } from './utils/pdfService';
+
+interface CapacityTableProps {
+  result: CapacityResult;
+}
+
+const CapacityTable: FC<CapacityTableProps> = ({ result }) => {
+  const { attempts, limit } = result;
+
+  return (
+    <div className="metrics">
+      <h3>Capacity</h3>
+      <p className="metrics-caption">
+        {attempts.length} {attempts.length === 1 ? 'attempt' : 'attempts'}
+        {result.status === 'cancelled' && ' · cancelled before the search finished'}
+      </p>
+      <table>
+        <tbody>
+          <tr className="total">
+            <td>Highest Success:</td>
+            <td>{result.maxSuccessfulRowCount > 0 ? `${result.maxSuccessfulRowCount.toLocaleString()} rows` : 'None'}</td>
+          </tr>
+          {result.failedRowCount !== undefined && (
+            <tr className="failed">
+              <td>First Failure:</td>
+              <td>{result.failedRowCount.toLocaleString()} rows</td>
+            </tr>
+          )}
+          {limit && (
+            <tr>
+              <td>Limited By:</td>
+              <td>{CAPACITY_LIMIT_LABELS[limit]}{result.reason && ` · ${result.reason}`}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+      <div className="stats-table-wrapper">
+        <table className="stats-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Rows</th>
+              <th>Result</th>
+              <th>Total</th>
+              <th>Memory After</th>
+              <th>Size</th>
+            </tr>
+          </thead>
+          <tbody>
+            {attempts.map((attempt, i) => (
+              <tr key={i} className={attempt.limit ? 'failed' : undefined}>
+                <td>{i + 1}</td>
+                <td>{attempt.rowCount.toLocaleString()}</td>
+                <td title={attempt.error}>{attempt.limit ? CAPACITY_LIMIT_LABELS[attempt.limit] : 'OK'}</td>
+                <td>{attempt.totalTime !== undefined ? formatTime(attempt.totalTime) : '–'}</td>
+                <td>{attempt.memoryAfter !== undefined ? formatBytes(attempt.memoryAfter) : '–'}</td>
+                <td>{attempt.pdfSize !== undefined ? formatBytes(attempt.pdfSize) : '–'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CapacityTable;
@@ -0,0 +1,498 @@
+import { ChangeEvent, FC, useMemo, useRef, useState } from 'react';
+import BarChart from './charts/BarChart';
+import BoxPlot from './charts/BoxPlot';
+import { engines, getEngine } from './engines/registry';
+import ExportButtons from './ExportButtons';
+import { DatasetSchema, DEFAULT_SCHEMA, describeSchema, sameSchema } from './generators/dataset';
+import {
+  BenchmarkMeasurement,
+  ComparisonConfig,
+  ComparisonProgress,
+  ComparisonResult,
+  EngineRun,
+  runComparison
+} from './utils/benchmarkRunner';
+import { formatBytesDelta, MemorySample, summarizeMemory } from './utils/memory';
+import { PHASES } from './utils/metrics';
+import { ExecutionMode, formatBytes, formatTime, StartMode } from './utils/pdfService';
+import { HistoryEntry, recordRuns } from './utils/historyStore';
+import { parseResultsFile, ResultsFile } from './utils/resultsFile';
+import {
+  bootstrapMedianCI,
+  compareSamples,
+  ConfidenceInterval,
+  formatPValue,
+  SIGNIFICANCE_LABELS,
+  SignificanceResult
+} from './utils/significance';
+import type { PdfTransport } from './workers/protocol';
+
+// A run from the current comparison, or a saved run reopened from history
+interface ComparedRun extends EngineRun {
+  key: string;
+  label: string;
+  historyId?: number;
+}
+
+interface RankedRun extends ComparedRun {
+  rank?: number;
+  // Baseline median divided by this run's median; above 1 means faster than the baseline
+  speedup?: number;
+  // Bootstrap interval for the median total time
+  medianCI?: ConfidenceInterval;
+  // Mann–Whitney U test of total times against the baseline
+  significance?: SignificanceResult;
+}
+
+function engineLabel(engineId: string): string {
+  return getEngine(engineId)?.label ?? engineId;
+}
+
+// Label a reopened run so it can be told apart from the engine's current run
+function historyLabel(entry: HistoryEntry): string {
+  return `${engineLabel(entry.engineId)} · ${entry.config.rowCount} rows · ${new Date(entry.timestamp).toLocaleDateString()}`;
+}
+
+// Comparisons in an imported file: a single exported one, or one per row count from the command line
+function fileComparisons(file: ResultsFile): ComparisonResult[] {
+  return [...(file.comparison ? [file.comparison] : []), ...(file.comparisons ?? [])];
+}
+
+// Describe how a comparison's generations were run; empty for results saved before these settings existed
+function runSettingsLabel(config: ComparisonConfig): string {
+  if (config.execution === 'main-thread') {
+    return 'main thread';
+  }
+  return [config.startMode && `${config.startMode} start`, config.transport && `${config.transport} transport`]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+// Median memory growth of a run, or a dash when it was not measured
+function memoryGrowth(samples?: MemorySample[]): string {
+  const memory = samples && summarizeMemory(samples);
+  return memory ? formatBytesDelta(memory.growth.median) : '–';
+}
+
+// Order successful runs by median total time and compare each against the baseline
+function rankRuns(runs: ComparedRun[], baselineKey: string): RankedRun[] {
+  const baseline = runs.find(run => run.key === baselineKey)?.measurement;
+  const baselineTotals = baseline?.samples.map(sample => sample.total);
+  const successful = runs
+    .filter(run => run.measurement)
+    .sort((a, b) => a.measurement!.summary.total.median - b.measurement!.summary.total.median);
+  const failed = runs.filter(run => !run.measurement);
+
+  return [
+    ...successful.map((run, i) => ({
+      ...run,
+      rank: i + 1,
+      speedup: baseline ? baseline.summary.total.median / run.measurement!.summary.total.median : undefined,
+      medianCI: bootstrapMedianCI(run.measurement!.samples.map(sample => sample.total)),
+      significance: baselineTotals && run.key !== baselineKey
+        ? compareSamples(run.measurement!.samples.map(sample => sample.total), baselineTotals)
+        : undefined
+    })),
+    ...failed
+  ];
+}
+
+interface ComparisonChartsProps {
+  runs: ComparedRun[];
+}
+
+// Phase breakdown and distribution of total time for every successful run
+const ComparisonCharts: FC<ComparisonChartsProps> = ({ runs }) => {
+  const measured = runs.filter((run): run is ComparedRun & { measurement: BenchmarkMeasurement } => !!run.measurement);
+  const labels = measured.map(run => run.label);
+
+  if (measured.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="comparison-charts">
+      <div>
+        <h4>Median Phase Breakdown</h4>
+        <BarChart
+          groups={labels}
+          series={PHASES.filter(({ key }) => key !== 'total').map(({ key, label }) => ({
+            label,
+            values: measured.map(run => run.measurement.summary[key]?.median ?? NaN)
+          }))}
+          formatValue={formatTime}
+        />
+      </div>
+      <div>
+        <h4>Total Time Distribution</h4>
+        <BoxPlot
+          boxes={measured.map((run, i) => ({
+            label: labels[i],
+            values: run.measurement.samples.map(sample => sample.total)
+          }))}
+          formatValue={formatTime}
+        />
+      </div>
+    </div>
+  );
+};
+
+interface ComparisonPanelProps {
+  schema: DatasetSchema;
+  // Saved runs reopened from history, shown alongside the current comparison
+  openedRuns: HistoryEntry[];
+  onCloseRun: (id: number) => void;
+}
+
+const ComparisonPanel: FC<ComparisonPanelProps> = ({ schema, openedRuns, onCloseRun }) => {
+  const [rowCount, setRowCount] = useState<number>(100);
+  const [warmupRuns, setWarmupRuns] = useState<number>(1);
+  const [measuredRuns, setMeasuredRuns] = useState<number>(5);
+  const [execution, setExecution] = useState<ExecutionMode>('worker');
+  const [startMode, setStartMode] = useState<StartMode>('cold');
+  const [transport, setTransport] = useState<PdfTransport>('binary');
+  const [timeoutSeconds, setTimeoutSeconds] = useState<number>(0);
+  const [wholePageMemory, setWholePageMemory] = useState<boolean>(false);
+  const [baselineKey, setBaselineKey] = useState<string>(engines[0].id);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [progress, setProgress] = useState<ComparisonProgress | null>(null);
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const [importedFile, setImportedFile] = useState<ResultsFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const handleRun = async () => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsRunning(true);
+    setResult(null);
+    setImportedFile(null);
+    setError(null);
+
+    try {
+      const comparison = await runComparison(
+        engines,
+        {
+          rowCount,
+          warmupRuns,
+          measuredRuns,
+          execution,
+          startMode,
+          transport,
+          timeoutMs: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined,
+          schema,
+          wholePageMemory
+        },
+        setProgress,
+        abortController.signal
+      );
+      setResult(comparison);
+      recordRuns(comparison.runs.flatMap(run => (run.measurement ? [run.measurement] : [])), 'comparison');
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const resultsFile = parseResultsFile(await file.text());
+      const comparisons = fileComparisons(resultsFile);
+      if (comparisons.length === 0) {
+        throw new Error(
+          `${file.name} does not contain an engine comparison${resultsFile.sweep || resultsFile.benchmark ? ' (it holds a single engine\'s results, which Regression Check can import)' : ''}; ` +
+          'import a comparison exported here or the results of npm run bench'
+        );
+      }
+      setResult(comparisons[0]);
+      setImportedFile(resultsFile);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    }
+  };
+
+  const comparedRuns: ComparedRun[] = useMemo(() => [
+    ...(result?.runs ?? []).map(run => ({ ...run, key: run.engineId, label: engineLabel(run.engineId) })),
+    ...openedRuns.map(entry => ({
+      engineId: entry.engineId,
+      status: 'completed' as const,
+      measurement: entry,
+      key: `history-${entry.id}`,
+      label: historyLabel(entry),
+      historyId: entry.id
+    }))
+  ], [result, openedRuns]);
+  // Bootstrapping is comparatively expensive, so only re-rank when the inputs change
+  const rankedRuns = useMemo(() => rankRuns(comparedRuns, baselineKey), [comparedRuns, baselineKey]);
+  const importedComparisons = importedFile ? fileComparisons(importedFile) : [];
+  const baselineLabel = comparedRuns.find(run => run.key === baselineKey)?.label ?? engineLabel(baselineKey);
+
+  return (
+    <div className="comparison-panel">
+      <h2>Compare All Engines</h2>
+      <div className="comparison-controls">
+        <div className="input-group">
+          <label htmlFor="comparison-rowCount">Number of Rows:</label>
+          <input
+            id="comparison-rowCount"
+            type="number"
+            min="1"
+            value={rowCount}
+            onChange={(e) => setRowCount(parseInt(e.target.value) || 100)}
+          />
+        </div>
+        <div className="input-group">
+          <label htmlFor="comparison-warmupRuns">Warm-up Runs:</label>
+          <input
+            id="comparison-warmupRuns"
+            type="number"
+            min="0"
+            value={warmupRuns}
+            onChange={(e) => setWarmupRuns(Math.max(0, parseInt(e.target.value) || 0))}
+          />
+        </div>
+        <div className="input-group">
+          <label htmlFor="comparison-measuredRuns">Measured Runs:</label>
+          <input
+            id="comparison-measuredRuns"
+            type="number"
+            min="1"
+            value={measuredRuns}
+            onChange={(e) => setMeasuredRuns(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </div>
+        <div className="input-group">
+          <label htmlFor="comparison-execution">Execution:</label>
+          <select
+            id="comparison-execution"
+            value={execution}
+            onChange={(e) => setExecution(e.target.value as ExecutionMode)}
+          >
+            <option value="worker">Web Worker</option>
+            <option value="main-thread">Main thread</option>
+          </select>
+        </div>
+        <div className="input-group">
+          <label htmlFor="comparison-startMode">Worker Start:</label>
+          <select
+            id="comparison-startMode"
+            value={startMode}
+            disabled={execution === 'main-thread'}
+            onChange={(e) => setStartMode(e.target.value as StartMode)}
+          >
+            <option value="cold">Cold</option>
+            <option value="warm">Warm</option>
+          </select>
+        </div>
+        <div className="input-group">
+          <label htmlFor="comparison-transport">Result Transport:</label>
+          <select
+            id="comparison-transport"
+            value={transport}
+            disabled={execution === 'main-thread'}
+            onChange={(e) => setTransport(e.target.value as PdfTransport)}
+          >
+            <option value="binary">Binary</option>
+            <option value="base64">Base64</option>
+          </select>
+        </div>
+        <div className="input-group">
+          <label htmlFor="comparison-timeout">Timeout per Run (s, 0 = none):</label>
+          <input
+            id="comparison-timeout"
+            type="number"
+            min="0"
+            value={timeoutSeconds}
+            onChange={(e) => setTimeoutSeconds(Math.max(0, parseFloat(e.target.value) || 0))}
+          />
+        </div>
+        <div className="input-group">
+          <label>
+            <input
+              type="checkbox"
+              checked={wholePageMemory}
+              onChange={(e) => setWholePageMemory(e.target.checked)}
+            />
+            Measure worker memory too (may wait for garbage collection)
+          </label>
+        </div>
+        <div className="input-group">
+          <label htmlFor="comparison-baseline">Baseline:</label>
+          <select
+            id="comparison-baseline"
+            value={baselineKey}
+            onChange={(e) => setBaselineKey(e.target.value)}
+          >
+            {engines.map(engine => (
+              <option key={engine.id} value={engine.id}>{engine.label}</option>
+            ))}
+            {openedRuns.map(entry => (
+              <option key={entry.id} value={`history-${entry.id}`}>{historyLabel(entry)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="run-actions">
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className={isRunning ? 'loading' : ''}
+        >
+          {isRunning ? (
+            <>
+              <span className="spinner"></span>
+              Running...
+              {progress && (
+                <span className="progress-label">
+                  {getEngine(progress.engineId)?.label} · {progress.phase === 'warmup' ? 'warm-up' : 'run'} {progress.run}/{progress.total}
+                </span>
+              )}
+            </>
+          ) : (
+            'Run All Engines'
+          )}
+        </button>
+        {isRunning && (
+          <button className="secondary-button danger" onClick={handleCancel}>
+            Cancel
+          </button>
+        )}
+      </div>
+
+      <div className="results-actions">
+        <label className="secondary-button">
+          Import Results
+          <input type="file" accept=".json,application/json" onChange={handleImport} hidden />
+        </label>
+        {result && importedComparisons.length > 1 && (
+          <select
+            aria-label="Imported row count"
+            value={importedComparisons.indexOf(result)}
+            onChange={(e) => setResult(importedComparisons[Number(e.target.value)])}
+          >
+            {importedComparisons.map((comparison, i) => (
+              <option key={i} value={i}>{comparison.config.rowCount.toLocaleString()} rows</option>
+            ))}
+          </select>
+        )}
+        {result && (
+          <ExportButtons
+            results={{ comparison: result }}
+            name={`comparison-${result.config.rowCount}-rows-${result.startedAt.slice(0, 10)}`}
+          />
+        )}
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {comparedRuns.length > 0 && (
+        <div className="metrics">
+          <h3>Ranking</h3>
+          {result && (
+            <p className="metrics-caption">
+              {result.config.rowCount} rows · {result.config.measuredRuns} measured runs after {result.config.warmupRuns} warm-up
+              {runSettingsLabel(result.config) && ` · ${runSettingsLabel(result.config)}`}
+              {result.config.schema && !sameSchema({ columns: result.config.schema.columns }, DEFAULT_SCHEMA) && ` · ${describeSchema(result.config.schema)}`}
+              {result.config.schema?.seed !== undefined && ` · synthetic data, seed ${result.config.schema.seed}`}
+              {importedFile && ` · imported, run ${new Date(result.startedAt).toLocaleString()} on ${importedFile.environment.platform} (${importedFile.environment.hardwareConcurrency} cores)`}
+            </p>
+          )}
+          <div className="stats-table-wrapper">
+            <table className="stats-table">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Engine</th>
+                  <th title="Total time of the first generation, including worker start-up; on the main thread, the first run in this page session">
+                    {result?.config.execution === 'main-thread' ? 'First Run in Session' : 'First Run'}
+                  </th>
+                  <th>Median Total</th>
+                  <th>95% CI</th>
+                  <th>Mean</th>
+                  <th>p95</th>
+                  <th>σ</th>
+                  <th>Size</th>
+                  <th title="Median change in memory usage across a run, where the browser can measure it">Memory</th>
+                  <th>vs {baselineLabel}</th>
+                  <th title="Two-sided Mann–Whitney U test of total times, α = 0.05">Significance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rankedRuns.map(run => {
+                  const total = run.measurement?.summary.total;
+
+                  if (!run.measurement || !total) {
+                    return (
+                      <tr key={run.key} className={`failed status-${run.status}`}>
+                        <td>–</td>
+                        <td>{run.label}</td>
+                        <td colSpan={10}>{run.error}</td>
+                      </tr>
+                    );
+                  }
+
+                  const classNames = [
+                    run.key === baselineKey ? 'baseline' : '',
+                    run.historyId !== undefined ? 'saved' : ''
+                  ].filter(Boolean).join(' ');
+
+                  return (
+                    <tr key={run.key} className={classNames || undefined}>
+                      <td>{run.rank}</td>
+                      <td>
+                        {run.label}
+                        {run.historyId !== undefined && (
+                          <button
+                            className="icon-button"
+                            title="Close saved run"
+                            onClick={() => onCloseRun(run.historyId!)}
+                          >
+                            ×
+                          </button>
+                        )}
+                      </td>
+                      <td>{run.measurement.firstRun ? formatTime(run.measurement.firstRun.total) : '–'}</td>
+                      <td>{formatTime(total.median)}</td>
+                      <td>
+                        {run.medianCI && total.count > 1
+                          ? `${formatTime(run.medianCI.low)}–${formatTime(run.medianCI.high)}`
+                          : '–'}
+                      </td>
+                      <td>{formatTime(total.mean)}</td>
+                      <td>{formatTime(total.p95)}</td>
+                      <td>{formatTime(total.stdDev)}</td>
+                      <td>{formatBytes(run.measurement.pdfSize)}</td>
+                      <td>{memoryGrowth(run.measurement.memory)}</td>
+                      <td>{run.speedup !== undefined ? `${run.speedup.toFixed(2)}×` : '–'}</td>
+                      <td className={run.significance ? `significance-${run.significance.verdict}` : undefined}>
+                        {run.significance
+                          ? `${SIGNIFICANCE_LABELS[run.significance.verdict]} (${formatPValue(run.significance.pValue)})`
+                          : '–'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <ComparisonCharts runs={comparedRuns} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPanel;
@@ -0,0 +1,212 @@
+import { FC, useMemo } from 'react';
+import {
+  COLUMN_TYPE_LABELS,
+  COLUMN_TYPES,
+  ColumnDefinition,
+  ColumnType,
+  createColumn,
+  DatasetSchema,
+  DEFAULT_SCHEMA,
+  generateRows,
+  MAX_COLUMNS,
+  sameSchema
+} from './generators/dataset';
+import { randomSeed } from './utils/random';
+
+interface DatasetSchemaEditorProps {
+  schema: DatasetSchema;
+  onChange: (schema: DatasetSchema) => void;
+}
+
+// Rows shown as a preview of what the engines will render
+const PREVIEW_ROWS = 3;
+
+// Edits the columns of the table every engine renders
+const DatasetSchemaEditor: FC<DatasetSchemaEditorProps> = ({ schema, onChange }) => {
+  const preview = useMemo(() => generateRows(schema, PREVIEW_ROWS), [schema]);
+  const totalWidth = schema.columns.reduce((sum, column) => sum + column.width, 0);
+
+  const updateColumn = (index: number, column: ColumnDefinition) => {
+    onChange({ ...schema, columns: schema.columns.map((current, i) => (i === index ? column : current)) });
+  };
+
+  // Templates, choices and ranges belong to the old type, so a new type starts from its own defaults
+  const changeType = (index: number, type: ColumnType) => {
+    const { header, width, nullRate } = schema.columns[index];
+    updateColumn(index, { header, type, width, nullRate });
+  };
+
+  const removeColumn = (index: number) => {
+    onChange({ ...schema, columns: schema.columns.filter((_, i) => i !== index) });
+  };
+
+  const addColumn = () => {
+    onChange({ ...schema, columns: [...schema.columns, createColumn('text', schema.columns.length)] });
+  };
+
+  // Sequential values have no seed; synthetic ones start from a fresh seed
+  const setSynthetic = (synthetic: boolean) => {
+    onChange(synthetic ? { ...schema, seed: randomSeed() } : { columns: schema.columns });
+  };
+
+  const synthetic = schema.seed !== undefined;
+
+  return (
+    <div className="comparison-panel">
+      <h2>Dataset</h2>
+      <div className="comparison-controls">
+        <div className="input-group">
+          <label htmlFor="dataset-values">Values:</label>
+          <select
+            id="dataset-values"
+            value={synthetic ? 'synthetic' : 'sequential'}
+            onChange={(e) => setSynthetic(e.target.value === 'synthetic')}
+          >
+            <option value="sequential">Sequential (Person 1, Person 2, ...)</option>
+            <option value="synthetic">Synthetic from a seed</option>
+          </select>
+        </div>
+        {synthetic && (
+          <div className="input-group">
+            <label htmlFor="dataset-seed">Seed:</label>
+            <div className="seed-input">
+              <input
+                id="dataset-seed"
+                type="number"
+                min="0"
+                value={schema.seed}
+                onChange={(e) => onChange({ ...schema, seed: (parseInt(e.target.value) || 0) >>> 0 })}
+              />
+              <button className="secondary-button" onClick={() => onChange({ ...schema, seed: randomSeed() })}>
+                New Seed
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="metrics">
+        <h3>Columns</h3>
+        <p className="metrics-caption">
+          The table every engine renders, columns in order
+          {synthetic && ' · the same seed always produces the same rows'}
+        </p>
+        <div className="stats-table-wrapper">
+          <table className="stats-table schema-table">
+            <thead>
+              <tr>
+                <th>Header</th>
+                <th>Type</th>
+                <th>Width</th>
+                <th>Share</th>
+                {synthetic && <th>Empty Cells</th>}
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {schema.columns.map((column, i) => (
+                <tr key={i}>
+                  <td>
+                    <input
+                      type="text"
+                      aria-label={`Column ${i + 1} header`}
+                      value={column.header}
+                      onChange={(e) => updateColumn(i, { ...column, header: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      aria-label={`Column ${i + 1} type`}
+                      value={column.type}
+                      onChange={(e) => changeType(i, e.target.value as ColumnType)}
+                    >
+                      {COLUMN_TYPES.map(type => (
+                        <option key={type} value={type}>{COLUMN_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min="1"
+                      aria-label={`Column ${i + 1} width`}
+                      value={column.width}
+                      onChange={(e) => updateColumn(i, { ...column, width: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                  </td>
+                  <td>{((column.width / totalWidth) * 100).toFixed(0)}%</td>
+                  {synthetic && (
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        aria-label={`Column ${i + 1} empty cells in percent`}
+                        value={Math.round((column.nullRate ?? 0) * 100)}
+                        onChange={(e) => updateColumn(i, {
+                          ...column,
+                          nullRate: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) / 100
+                        })}
+                      />
+                    </td>
+                  )}
+                  <td>
+                    <button
+                      className="secondary-button danger"
+                      disabled={schema.columns.length === 1}
+                      onClick={() => removeColumn(i)}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="run-actions">
+        <button
+          className="secondary-button"
+          disabled={schema.columns.length >= MAX_COLUMNS}
+          onClick={addColumn}
+        >
+          Add Column
+        </button>
+        <button
+          className="secondary-button"
+          disabled={sameSchema(schema, DEFAULT_SCHEMA)}
+          onClick={() => onChange(DEFAULT_SCHEMA)}
+        >
+          Reset to Default
+        </button>
+      </div>
+
+      <div className="metrics">
+        <h3>Preview</h3>
+        <div className="stats-table-wrapper">
+          <table className="stats-table schema-preview">
+            <thead>
+              <tr>
+                {schema.columns.map((column, i) => (
+                  <th key={i}>{column.header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((text, i) => (
+                    <td key={i}>{text}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetSchemaEditor;
@@ -0,0 +1,22 @@
+import { FC } from 'react';
+import { exportResultsCsv, exportResultsJson, ResultsContent } from './utils/resultsFile';
+
+interface ExportButtonsProps {
+  results: ResultsContent;
+  // Base file name without extension
+  name: string;
+}
+
+// JSON and CSV download buttons for a set of results
+const ExportButtons: FC<ExportButtonsProps> = ({ results, name }) => (
+  <div className="results-actions">
+    <button className="secondary-button" onClick={() => exportResultsJson(results, name)}>
+      Export JSON
+    </button>
+    <button className="secondary-button" onClick={() => exportResultsCsv(results, name)}>
+      Export CSV
+    </button>
+  </div>
+);
+
+export default ExportButtons;
@@ -0,0 +1,125 @@
+import { FC, useCallback, useEffect, useState } from 'react';
+import { engines, getEngine } from './engines/registry';
+import { formatBytes, formatTime } from './utils/pdfService';
+import { deleteRun, HistoryEntry, HistoryFilter, historyEvents, listRuns } from './utils/historyStore';
+
+interface HistoryPanelProps {
+  openedRunIds: number[];
+  onOpenRun: (entry: HistoryEntry) => void;
+}
+
+const HistoryPanel: FC<HistoryPanelProps> = ({ openedRunIds, onOpenRun }) => {
+  const [engineId, setEngineId] = useState<string>('');
+  const [rowCount, setRowCount] = useState<string>('');
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    const filter: HistoryFilter = {
+      engineId: engineId || undefined,
+      rowCount: rowCount ? parseInt(rowCount) : undefined
+    };
+
+    try {
+      setEntries(await listRuns(filter));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read run history');
+    }
+  }, [engineId, rowCount]);
+
+  // Reload when the filter changes or runs are saved elsewhere in the app
+  useEffect(() => {
+    loadEntries();
+    historyEvents.addEventListener('change', loadEntries);
+    return () => historyEvents.removeEventListener('change', loadEntries);
+  }, [loadEntries]);
+
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteRun(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete run');
+    }
+  };
+
+  return (
+    <div className="comparison-panel history-panel">
+      <h2>Run History</h2>
+      <div className="comparison-controls">
+        <div className="input-group">
+          <label htmlFor="history-engine">Engine:</label>
+          <select id="history-engine" value={engineId} onChange={(e) => setEngineId(e.target.value)}>
+            <option value="">All engines</option>
+            {engines.map(engine => (
+              <option key={engine.id} value={engine.id}>{engine.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="input-group">
+          <label htmlFor="history-rowCount">Number of Rows:</label>
+          <input
+            id="history-rowCount"
+            type="number"
+            min="1"
+            placeholder="Any"
+            value={rowCount}
+            onChange={(e) => setRowCount(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {entries.length === 0 ? (
+        <p className="metrics-caption">No saved runs{engineId || rowCount ? ' match this filter' : ' yet'}.</p>
+      ) : (
+        <div className="metrics">
+          <div className="stats-table-wrapper">
+            <table className="stats-table history-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Engine</th>
+                  <th>Rows</th>
+                  <th>Runs</th>
+                  <th>Median Total</th>
+                  <th>Size</th>
+                  <th>Source</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => {
+                  const isOpen = openedRunIds.includes(entry.id);
+
+                  return (
+                    <tr key={entry.id}>
+                      <td>{new Date(entry.timestamp).toLocaleString()}</td>
+                      <td>{getEngine(entry.engineId)?.label ?? entry.engineId}</td>
+                      <td>{entry.config.rowCount.toLocaleString()}</td>
+                      <td>{entry.config.warmupRuns} + {entry.samples.length}</td>
+                      <td>{formatTime(entry.summary.total.median)}</td>
+                      <td>{formatBytes(entry.pdfSize)}</td>
+                      <td>{entry.source}</td>
+                      <td className="row-actions">
+                        <button className="secondary-button" disabled={isOpen} onClick={() => onOpenRun(entry)}>
+                          {isOpen ? 'Opened' : 'Open'}
+                        </button>
+                        <button className="secondary-button danger" onClick={() => handleDelete(entry.id)}>
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
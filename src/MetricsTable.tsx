@@ -0,0 +1,255 @@
+import { FC } from 'react';
+import BoxPlot from './charts/BoxPlot';
+import StackedBar from './charts/StackedBar';
+import { BenchmarkResult } from './utils/benchmarkRunner';
+import { formatBytesDelta, MEMORY_SOURCE_LABELS, MemorySample, summarizeMemory } from './utils/memory';
+import { DETAIL_PHASES, medianDetailTimings, PHASES, PhaseTimings } from './utils/metrics';
+import { formatBytes, formatTime } from './utils/pdfService';
+import { isJanky, ResponsivenessMetrics } from './utils/responsiveness';
+import { SummaryStats } from './utils/statistics';
+
+// Summary columns shown for multi-iteration results
+const STAT_COLUMNS: { key: keyof Omit<SummaryStats, 'count'>; label: string }[] = [
+  { key: 'min', label: 'Min' },
+  { key: 'median', label: 'Median' },
+  { key: 'mean', label: 'Mean' },
+  { key: 'p95', label: 'p95' },
+  { key: 'max', label: 'Max' },
+  { key: 'stdDev', label: 'σ' }
+];
+
+// Stacked breakdown of where the time went, using medians across runs
+const PhaseBreakdown: FC<{ samples: PhaseTimings[] }> = ({ samples }) => {
+  if (!samples.some(sample => sample.detail)) {
+    return null;
+  }
+
+  const medians = medianDetailTimings(samples);
+  const segments = DETAIL_PHASES.flatMap(({ key, label }, colorIndex) => (
+    medians[key] !== undefined ? [{ label, value: medians[key], colorIndex }] : []
+  ));
+
+  return (
+    <>
+      <h4 className="breakdown-title">Time Breakdown{samples.length > 1 ? ' (median)' : ''}</h4>
+      <StackedBar segments={segments} formatValue={formatTime} />
+    </>
+  );
+};
+
+// First generation next to the steady state of the measured runs
+const FirstRunComparison: FC<{ result: BenchmarkResult }> = ({ result }) => {
+  const { firstRun, summary, samples, config } = result;
+
+  // With a single run the first run is the only measurement
+  if (!firstRun || (config.warmupRuns === 0 && samples.length === 1)) {
+    return null;
+  }
+
+  return (
+    <>
+      <h4 className="breakdown-title">First Run vs Steady State</h4>
+      <p className="metrics-caption">
+        {config.execution === 'main-thread'
+          ? 'Main thread: only the first run in this page session loads the engine\'s modules; later benchmarks start warm'
+          : config.startMode === 'warm'
+            ? 'Warm start: workers are reused after the first run'
+            : 'Cold start: every run starts a new worker'}
+        {config.warmupRuns === 0 && ' · the steady state includes the first run; add warm-up runs to exclude it'}
+      </p>
+      <div className="stats-table-wrapper">
+        <table className="stats-table">
+          <thead>
+            <tr>
+              <th>Phase</th>
+              <th>{config.execution === 'main-thread' ? 'First Run in This Page Session' : 'First Run'}</th>
+              <th>Steady State (median)</th>
+              <th>Ratio</th>
+            </tr>
+          </thead>
+          <tbody>
+            {PHASES.map(({ key, label }) => (
+              <tr key={key} className={key === 'total' ? 'total' : undefined}>
+                <td>{label}</td>
+                <td>{formatTime(firstRun[key])}</td>
+                <td>{formatTime(summary[key].median)}</td>
+                <td>{summary[key].median > 0 ? `${(firstRun[key] / summary[key].median).toFixed(2)}×` : '–'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+};
+
+// Jank observed on the page while the measured runs were generating
+const ResponsivenessSummary: FC<{ metrics?: ResponsivenessMetrics }> = ({ metrics }) => {
+  if (!metrics) {
+    return null;
+  }
+
+  const { longTasks, frames, inputDelay } = metrics;
+  const expectedFrames = frames.rendered + frames.dropped;
+
+  return (
+    <>
+      <h4 className="breakdown-title">Responsiveness</h4>
+      <table className={isJanky(metrics) ? 'responsiveness janky' : 'responsiveness'}>
+        <tbody>
+          <tr>
+            <td>Long Tasks:</td>
+            <td>
+              {longTasks
+                ? `${longTasks.count} · ${formatTime(longTasks.totalTime)} total · longest ${formatTime(longTasks.longest)}`
+                : 'Not supported by this browser'}
+            </td>
+          </tr>
+          <tr>
+            <td>Dropped Frames:</td>
+            <td>
+              {frames.dropped} of {expectedFrames}
+              {expectedFrames > 0 && ` (${((frames.dropped / expectedFrames) * 100).toFixed(1)}%)`}
+              {' · '}longest gap {formatTime(frames.longestGap)}
+            </td>
+          </tr>
+          <tr>
+            <td>Input Delay:</td>
+            <td>
+              median {formatTime(inputDelay.median)} · p95 {formatTime(inputDelay.p95)} · max {formatTime(inputDelay.max)}
+              {' '}({inputDelay.samples} samples)
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </>
+  );
+};
+
+// Heap figures before and after the measured runs, next to the size of what they produced
+const MemorySummaryTable: FC<{ samples?: MemorySample[]; pdfSize: number }> = ({ samples, pdfSize }) => {
+  if (!samples) {
+    return null;
+  }
+
+  const memory = summarizeMemory(samples);
+
+  return (
+    <>
+      <h4 className="breakdown-title">Memory</h4>
+      <p className="metrics-caption">
+        {memory
+          ? `${MEMORY_SOURCE_LABELS[memory.source]}${samples.length > 1 ? ' · medians across runs' : ''}`
+          : 'This browser exposes no memory API; only the output size is known'}
+      </p>
+      <table>
+        <tbody>
+          {memory && (
+            <>
+              <tr>
+                <td>Before Run:</td>
+                <td>{formatBytes(Math.round(memory.before.median))}</td>
+              </tr>
+              <tr>
+                <td>After Run:</td>
+                <td>
+                  {formatBytes(Math.round(memory.after.median))}
+                  {memory.after.count > 1 && ` · max ${formatBytes(memory.after.max)}`}
+                </td>
+              </tr>
+              <tr className="total">
+                <td>Growth:</td>
+                <td>
+                  {formatBytesDelta(memory.growth.median)}
+                  {memory.growth.count > 1 && ` · max ${formatBytesDelta(memory.growth.max)}`}
+                </td>
+              </tr>
+            </>
+          )}
+          <tr>
+            <td>PDF Size:</td>
+            <td>{formatBytes(pdfSize)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </>
+  );
+};
+
+interface MetricsTableProps {
+  result: BenchmarkResult;
+}
+
+const MetricsTable: FC<MetricsTableProps> = ({ result }) => {
+  const { samples, summary, config } = result;
+
+  // A single sample is shown as a plain phase breakdown
+  if (samples.length === 1) {
+    const [sample] = samples;
+
+    return (
+      <div className="metrics">
+        <h3>Performance Metrics</h3>
+        {config.schema?.seed !== undefined && (
+          <p className="metrics-caption">Synthetic data, seed {config.schema.seed}</p>
+        )}
+        <table>
+          <tbody>
+            {PHASES.map(({ key, label }) => (
+              <tr key={key} className={key === 'total' ? 'total' : undefined}>
+                <td>{label}:</td>
+                <td>{formatTime(sample[key])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <FirstRunComparison result={result} />
+        <PhaseBreakdown samples={samples} />
+        <ResponsivenessSummary metrics={result.responsiveness} />
+        <MemorySummaryTable samples={result.memory} pdfSize={result.pdfSize} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="metrics">
+      <h3>Performance Metrics</h3>
+      <p className="metrics-caption">
+        {samples.length} measured runs after {config.warmupRuns} warm-up {config.warmupRuns === 1 ? 'run' : 'runs'}
+        {config.schema?.seed !== undefined && ` · synthetic data, seed ${config.schema.seed}`}
+      </p>
+      <div className="stats-table-wrapper">
+        <table className="stats-table">
+          <thead>
+            <tr>
+              <th>Phase</th>
+              {STAT_COLUMNS.map(({ key, label }) => (
+                <th key={key}>{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {PHASES.map(({ key, label }) => (
+              <tr key={key} className={key === 'total' ? 'total' : undefined}>
+                <td>{label}</td>
+                {STAT_COLUMNS.map(column => (
+                  <td key={column.key}>{formatTime(summary[key][column.key])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <BoxPlot
+        boxes={PHASES.map(({ key, label }) => ({ label, values: samples.map(sample => sample[key]) }))}
+        formatValue={formatTime}
+      />
+      <FirstRunComparison result={result} />
+      <PhaseBreakdown samples={samples} />
+      <ResponsivenessSummary metrics={result.responsiveness} />
+      <MemorySummaryTable samples={result.memory} pdfSize={result.pdfSize} />
+    </div>
+  );
+};
+
+export default MetricsTable;
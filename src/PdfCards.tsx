@@ -1,151 +1,584 @@
-import { FC, useState } from 'react';
+import { FC, useEffect, useRef, useState } from 'react';
 import './App.css';
-import { generatePdf, openPdfInNewTab, downloadPdf, formatTime } from './utils/pdfMakeService';
-import { generatePdfWithPdfLib } from './utils/pdfLibService';
-import { generatePdfWithTypst } from './utils/typstService';
-import { generatePdfWithPdfMe } from './utils/pdfMeService';
+import CapacityTable from './CapacityTable';
+import { engines } from './engines/registry';
+import { EngineOption, EngineOptionValues, getDefaultOptions, PdfEngine } from './engines/types';
+import ExportButtons from './ExportButtons';
+import type { DatasetSchema } from './generators/dataset';
+import MetricsTable from './MetricsTable';
+import PdfStructureTable from './PdfStructureTable';
+import RowCountRangeInput from './RowCountRangeInput';
+import StressTable from './StressTable';
+import SweepTable from './SweepTable';
+import {
+  BenchmarkProgress,
+  BenchmarkResult,
+  describeFailure,
+  runBenchmark,
+  runSweep,
+  SweepProgress,
+  SweepResult,
+  toMeasurement
+} from './utils/benchmarkRunner';
+import { CapacityProgress, CapacityResult, DEFAULT_CAPACITY_LIMITS, findCapacity } from './utils/capacityFinder';
+import { recordRuns } from './utils/historyStore';
+import {
+  cleanupWorkerPools,
+  createPdfBlobUrl,
+  downloadPdf,
+  ExecutionMode,
+  openPdfInNewTab,
+  StartMode
+} from './utils/pdfService';
+import { DEFAULT_ROW_COUNT_RANGE, formatRowCount, resolveRowCounts, RowCountRange } from './utils/rowCounts';
+import { defaultConcurrency, runStress, StressProgress, StressResult } from './utils/stressRunner';
+import type { PdfTransport } from './workers/protocol';
 
-interface PdfGenerationMetrics {
-  dataGenerationTime: number;
-  totalTime: number;
-  workerStartTime?: number;
-  workerEndTime?: number;
-  totalProcessTime?: number;
+interface EngineOptionInputProps {
+  engine: PdfEngine;
+  option: EngineOption;
+  value: number | boolean | string;
+  onChange: (value: number | boolean | string) => void;
 }
 
+// Renders the input for a single entry of an engine's options schema
+const EngineOptionInput: FC<EngineOptionInputProps> = ({ engine, option, value, onChange }) => {
+  const id = `${option.key}-${engine.id}`;
+
+  switch (option.type) {
+    case 'boolean':
+      return (
+        <div className="option-group">
+          <label>
+            <input
+              id={id}
+              type="checkbox"
+              checked={Boolean(value)}
+              onChange={(e) => onChange(e.target.checked)}
+            />
+            {option.label}
+          </label>
+        </div>
+      );
+    case 'select':
+      return (
+        <div className="option-group">
+          <p className="option-label">{option.label}:</p>
+          <select id={id} value={String(value)} onChange={(e) => onChange(e.target.value)}>
+            {option.choices.map(choice => (
+              <option key={choice} value={choice}>{choice}</option>
+            ))}
+          </select>
+        </div>
+      );
+    case 'number':
+      return (
+        <div className="option-group">
+          <p className="option-label">{option.label}:</p>
+          <input
+            id={id}
+            type="number"
+            min={option.min}
+            max={option.max}
+            value={Number(value)}
+            onChange={(e) => onChange(parseInt(e.target.value) || option.defaultValue)}
+          />
+        </div>
+      );
+  }
+};
+
 interface PdfCardProps {
-  label: string;
-  onGenerateClick?: (rowCount: number, shouldDownload: boolean, viewType: 'newTab' | 'inline') => Promise<{ metrics: PdfGenerationMetrics, inlinePdfUrl?: string }>;
+  engine: PdfEngine;
+  schema: DatasetSchema;
 }
 
-const PdfCard: FC<PdfCardProps> = ({ label, onGenerateClick }) => {
+const PdfCard: FC<PdfCardProps> = ({ engine, schema }) => {
+  const { id, label } = engine;
+  const [mode, setMode] = useState<'single' | 'sweep' | 'stress' | 'capacity'>('single');
   const [rowCount, setRowCount] = useState<number>(10);
+  const [range, setRange] = useState<RowCountRange>(DEFAULT_ROW_COUNT_RANGE);
+  const [options, setOptions] = useState<EngineOptionValues>(() => getDefaultOptions(engine));
+  const [warmupRuns, setWarmupRuns] = useState<number>(0);
+  const [measuredRuns, setMeasuredRuns] = useState<number>(1);
+  const [concurrency, setConcurrency] = useState<number>(defaultConcurrency);
+  const [documents, setDocuments] = useState<number>(() => defaultConcurrency() * 4);
+  const [stressWarmup, setStressWarmup] = useState<boolean>(true);
+  const [capacityStart, setCapacityStart] = useState<number>(DEFAULT_CAPACITY_LIMITS.startRowCount);
+  const [capacityMax, setCapacityMax] = useState<number>(DEFAULT_CAPACITY_LIMITS.maxRowCount);
+  const [timeLimitSeconds, setTimeLimitSeconds] = useState<number>(DEFAULT_CAPACITY_LIMITS.timeLimitMs / 1000);
+  const [memoryLimitMb, setMemoryLimitMb] = useState<number>(0);
+  const [execution, setExecution] = useState<ExecutionMode>('worker');
+  const [startMode, setStartMode] = useState<StartMode>('cold');
+  const [transport, setTransport] = useState<PdfTransport>('binary');
+  const [timeoutSeconds, setTimeoutSeconds] = useState<number>(0);
+  const [wholePageMemory, setWholePageMemory] = useState<boolean>(false);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [progress, setProgress] = useState<BenchmarkProgress | SweepProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [metrics, setMetrics] = useState<PdfGenerationMetrics | null>(null);
+  const [benchmark, setBenchmark] = useState<BenchmarkResult | null>(null);
+  const [sweep, setSweep] = useState<SweepResult | null>(null);
+  const [stressProgress, setStressProgress] = useState<StressProgress | null>(null);
+  const [stress, setStress] = useState<StressResult | null>(null);
+  const [capacityProgress, setCapacityProgress] = useState<CapacityProgress | null>(null);
+  const [capacity, setCapacity] = useState<CapacityResult | null>(null);
   const [shouldDownload, setShouldDownload] = useState<boolean>(false);
   const [viewType, setViewType] = useState<'newTab' | 'inline'>('newTab');
   const [pdfSrc, setPdfSrc] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Release the previous inline preview when it is replaced or the card unmounts
+  useEffect(() => {
+    return () => {
+      if (pdfSrc) {
+        URL.revokeObjectURL(pdfSrc);
+      }
+    };
+  }, [pdfSrc]);
 
   const handleClick = async () => {
-    if (onGenerateClick) {
-      setIsGenerating(true);
-      setError(null);
-      setMetrics(null);
-      setPdfSrc(null);
-      
-      try {
-        const result = await onGenerateClick(rowCount, shouldDownload, viewType);
-        if (result.metrics) {
-          setMetrics(result.metrics);
-        }
-        if (result.inlinePdfUrl) {
-          setPdfSrc(result.inlinePdfUrl);
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Unknown error occurred');
-      } finally {
-        setIsGenerating(false);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsGenerating(true);
+    setError(null);
+    setBenchmark(null);
+    setSweep(null);
+    setStress(null);
+    setCapacity(null);
+    setPdfSrc(null);
+
+    const config = {
+      rowCount,
+      options,
+      warmupRuns,
+      measuredRuns,
+      execution,
+      startMode,
+      transport,
+      timeoutMs: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined,
+      schema,
+      wholePageMemory
+    };
+
+    try {
+      if (mode === 'sweep') {
+        const rowCounts = resolveRowCounts(range);
+        const sweepResult = await runSweep(engine, rowCounts, config, setProgress, abortController.signal);
+        setSweep(sweepResult);
+        recordRuns(sweepResult.points, 'sweep');
+        return;
+      }
+
+      if (mode === 'stress') {
+        const stressConfig = {
+          rowCount,
+          options,
+          concurrency,
+          documents,
+          warmup: stressWarmup,
+          transport,
+          timeoutMs: config.timeoutMs,
+          schema
+        };
+        setStress(await runStress(engine, stressConfig, setStressProgress, abortController.signal));
+        return;
       }
-    } else {
-      console.log(`${label} functionality not implemented yet`);
+
+      if (mode === 'capacity') {
+        const capacityConfig = {
+          ...DEFAULT_CAPACITY_LIMITS,
+          options,
+          execution,
+          startMode,
+          transport,
+          startRowCount: capacityStart,
+          maxRowCount: capacityMax,
+          timeLimitMs: timeLimitSeconds * 1000,
+          memoryLimitBytes: memoryLimitMb > 0 ? memoryLimitMb * 1024 * 1024 : undefined,
+          schema
+        };
+        setCapacity(await findCapacity(engine, capacityConfig, setCapacityProgress, abortController.signal));
+        return;
+      }
+
+      const benchmarkResult = await runBenchmark(engine, config, setProgress, abortController.signal);
+      const result = benchmarkResult.lastResult;
+      setBenchmark(benchmarkResult);
+      recordRuns([toMeasurement(benchmarkResult)], 'single');
+
+      if (shouldDownload) {
+        downloadPdf(result.pdf, `${id}-report-${rowCount}-rows.pdf`);
+      } else if (viewType === 'newTab') {
+        openPdfInNewTab(result.pdf);
+      } else if (viewType === 'inline') {
+        setPdfSrc(createPdfBlobUrl(result.pdf));
+      }
+    } catch (err) {
+      const failure = describeFailure(err, config);
+      if (failure.status === 'failed') {
+        console.error(`Error generating PDF with ${label}:`, err);
+      }
+      setError(failure.error);
+    } finally {
+      abortControllerRef.current = null;
+      setIsGenerating(false);
+      setProgress(null);
+      setStressProgress(null);
+      setCapacityProgress(null);
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
     <div className="card">
       <h2>{label}</h2>
       <div className="card-content">
-        <div className="input-group">
-          <label htmlFor={`rowCount-${label}`}>Number of Rows:</label>
-          <input
-            id={`rowCount-${label}`}
-            type="number"
-            min="1"
-            value={rowCount}
-            onChange={(e) => setRowCount(parseInt(e.target.value) || 10)}
-          />
+        <div className="radio-group">
+          <label>
+            <input
+              type="radio"
+              name={`mode-${id}`}
+              checked={mode === 'single'}
+              onChange={() => setMode('single')}
+            />
+            <span>Single Run</span>
+          </label>
+          <label>
+            <input
+              type="radio"
+              name={`mode-${id}`}
+              checked={mode === 'sweep'}
+              onChange={() => setMode('sweep')}
+            />
+            <span>Row Sweep</span>
+          </label>
+          <label>
+            <input
+              type="radio"
+              name={`mode-${id}`}
+              checked={mode === 'stress'}
+              onChange={() => setMode('stress')}
+            />
+            <span>Stress</span>
+          </label>
+          <label>
+            <input
+              type="radio"
+              name={`mode-${id}`}
+              checked={mode === 'capacity'}
+              onChange={() => setMode('capacity')}
+            />
+            <span>Capacity</span>
+          </label>
         </div>
         
-        <div className="options-container">
-          <h3>Options</h3>
-          <div className="option-group">
-            <label>
-              <input
-                type="checkbox"
-                checked={shouldDownload}
-                onChange={(e) => setShouldDownload(e.target.checked)}
-              />
-              Download PDF
-            </label>
+        {mode === 'sweep' && <RowCountRangeInput id={id} range={range} onChange={setRange} />}
+        
+        {(mode === 'single' || mode === 'stress') && (
+          <div className="input-group">
+            <label htmlFor={`rowCount-${id}`}>Number of Rows:</label>
+            <input
+              id={`rowCount-${id}`}
+              type="number"
+              min="1"
+              value={rowCount}
+              onChange={(e) => setRowCount(parseInt(e.target.value) || 10)}
+            />
           </div>
-          
-          <div className="option-group">
-            <p className="option-label">View Mode:</p>
-            <div className="radio-group">
-              <label>
+        )}
+        
+        {mode === 'capacity' && (
+          <>
+            <div className="input-group iterations-group">
+              <div>
+                <label htmlFor={`capacityStart-${id}`}>Start Rows:</label>
                 <input
-                  type="radio"
-                  name={`viewType-${label}`}
-                  checked={viewType === 'newTab'}
-                  onChange={() => setViewType('newTab')}
+                  id={`capacityStart-${id}`}
+                  type="number"
+                  min="1"
+                  value={capacityStart}
+                  onChange={(e) => setCapacityStart(Math.max(1, parseInt(e.target.value) || 1))}
                 />
-                <span>New Tab</span>
-              </label>
+              </div>
+              <div>
+                <label htmlFor={`capacityMax-${id}`}>Max Rows:</label>
+                <input
+                  id={`capacityMax-${id}`}
+                  type="number"
+                  min="1"
+                  value={capacityMax}
+                  onChange={(e) => setCapacityMax(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+              </div>
+            </div>
+            <div className="input-group iterations-group">
+              <div>
+                <label htmlFor={`timeLimit-${id}`}>Time Limit (s):</label>
+                <input
+                  id={`timeLimit-${id}`}
+                  type="number"
+                  min="1"
+                  value={timeLimitSeconds}
+                  onChange={(e) => setTimeLimitSeconds(Math.max(1, parseFloat(e.target.value) || 1))}
+                />
+              </div>
+              <div>
+                <label htmlFor={`memoryLimit-${id}`}>Memory Limit (MB, 0 = none):</label>
+                <input
+                  id={`memoryLimit-${id}`}
+                  type="number"
+                  min="0"
+                  value={memoryLimitMb}
+                  onChange={(e) => setMemoryLimitMb(Math.max(0, parseInt(e.target.value) || 0))}
+                />
+              </div>
+            </div>
+          </>
+        )}
+        
+        {mode === 'stress' ? (
+          <>
+            <div className="input-group iterations-group">
+              <div>
+                <label htmlFor={`concurrency-${id}`}>Concurrent Generations:</label>
+                <input
+                  id={`concurrency-${id}`}
+                  type="number"
+                  min="1"
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+              </div>
+              <div>
+                <label htmlFor={`documents-${id}`}>Documents:</label>
+                <input
+                  id={`documents-${id}`}
+                  type="number"
+                  min="1"
+                  value={documents}
+                  onChange={(e) => setDocuments(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+              </div>
+            </div>
+            <div className="option-group">
               <label>
                 <input
-                  type="radio"
-                  name={`viewType-${label}`}
-                  checked={viewType === 'inline'}
-                  onChange={() => setViewType('inline')}
+                  type="checkbox"
+                  checked={stressWarmup}
+                  onChange={(e) => setStressWarmup(e.target.checked)}
                 />
-                <span>Inline</span>
+                Warm up every worker first
               </label>
             </div>
-          </div>
+          </>
+        ) : (
+          <>
+            {mode !== 'capacity' && (
+              <div className="input-group iterations-group">
+                <div>
+                  <label htmlFor={`warmupRuns-${id}`}>Warm-up Runs:</label>
+                  <input
+                    id={`warmupRuns-${id}`}
+                    type="number"
+                    min="0"
+                    value={warmupRuns}
+                    onChange={(e) => setWarmupRuns(Math.max(0, parseInt(e.target.value) || 0))}
+                  />
+                </div>
+                <div>
+                  <label htmlFor={`measuredRuns-${id}`}>Measured Runs:</label>
+                  <input
+                    id={`measuredRuns-${id}`}
+                    type="number"
+                    min="1"
+                    value={measuredRuns}
+                    onChange={(e) => setMeasuredRuns(Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                </div>
+              </div>
+            )}
+          
+            <div className="input-group">
+              <label htmlFor={`execution-${id}`}>Execution:</label>
+              <select
+                id={`execution-${id}`}
+                value={execution}
+                onChange={(e) => setExecution(e.target.value as ExecutionMode)}
+              >
+                <option value="worker">Web Worker</option>
+                <option value="main-thread">Main thread</option>
+              </select>
+            </div>
+          
+            <div className="input-group">
+              <label htmlFor={`startMode-${id}`}>Worker Start:</label>
+              <select
+                id={`startMode-${id}`}
+                value={startMode}
+                disabled={execution === 'main-thread'}
+                onChange={(e) => setStartMode(e.target.value as StartMode)}
+              >
+                <option value="cold">Cold (new worker every run)</option>
+                <option value="warm">Warm (reuse a pooled worker)</option>
+              </select>
+            </div>
+
+            {mode !== 'capacity' && (
+              <div className="option-group">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={wholePageMemory}
+                    onChange={(e) => setWholePageMemory(e.target.checked)}
+                  />
+                  Measure worker memory too (may wait for garbage collection)
+                </label>
+              </div>
+            )}
+          </>
+        )}
+        
+        <div className="input-group">
+          <label htmlFor={`transport-${id}`}>Result Transport:</label>
+          <select
+            id={`transport-${id}`}
+            value={transport}
+            disabled={mode !== 'stress' && execution === 'main-thread'}
+            onChange={(e) => setTransport(e.target.value as PdfTransport)}
+          >
+            <option value="binary">Binary (transferred bytes)</option>
+            <option value="base64">Base64 string</option>
+          </select>
         </div>
         
-        {error && <div className="error-message">{error}</div>}
+        {mode !== 'capacity' && (
+          <div className="input-group">
+            <label htmlFor={`timeout-${id}`}>Timeout per Run (s, 0 = none):</label>
+            <input
+              id={`timeout-${id}`}
+              type="number"
+              min="0"
+              value={timeoutSeconds}
+              onChange={(e) => setTimeoutSeconds(Math.max(0, parseFloat(e.target.value) || 0))}
+            />
+          </div>
+        )}
         
-        <button 
-          onClick={handleClick} 
-          disabled={isGenerating}
-          className={isGenerating ? 'loading' : ''}
-        >
-          {isGenerating ? (
+        <div className="options-container">
+          <h3>Options</h3>
+          {engine.options.map(option => (
+            <EngineOptionInput
+              key={option.key}
+              engine={engine}
+              option={option}
+              value={options[option.key]}
+              onChange={(value) => setOptions(prev => ({ ...prev, [option.key]: value }))}
+            />
+          ))}
+          {mode === 'single' && (
             <>
-              <span className="spinner"></span>
-              Generating...
+              <div className="option-group">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={shouldDownload}
+                    onChange={(e) => setShouldDownload(e.target.checked)}
+                  />
+                  Download PDF
+                </label>
+              </div>
+          
+              <div className="option-group">
+                <p className="option-label">View Mode:</p>
+                <div className="radio-group">
+                  <label>
+                    <input
+                      type="radio"
+                      name={`viewType-${id}`}
+                      checked={viewType === 'newTab'}
+                      onChange={() => setViewType('newTab')}
+                    />
+                    <span>New Tab</span>
+                  </label>
+                  <label>
+                    <input
+                      type="radio"
+                      name={`viewType-${id}`}
+                      checked={viewType === 'inline'}
+                      onChange={() => setViewType('inline')}
+                    />
+                    <span>Inline</span>
+                  </label>
+                </div>
+              </div>
             </>
-          ) : (
-            'Generate PDF'
           )}
-        </button>
+        </div>
         
-        {metrics && (
-          <div className="metrics">
-            <h3>Performance Metrics</h3>
-            <table>
-              <tbody>
-                <tr>
-                  <td>Data Generation:</td>
-                  <td>{formatTime(metrics.dataGenerationTime)}</td>
-                </tr>
-                <tr>
-                  <td>PDF Creation:</td>
-                  <td>{formatTime(metrics.totalTime - metrics.dataGenerationTime)}</td>
-                </tr>
-                <tr>
-                  <td>Worker Overhead:</td>
-                  <td>{formatTime((metrics.totalProcessTime || 0) - metrics.totalTime)}</td>
-                </tr>
-                <tr className="total">
-                  <td>Total Time:</td>
-                  <td>{formatTime(metrics.totalProcessTime || 0)}</td>
-                </tr>
-              </tbody>
-            </table>
-          </div>
+        {error && <div className="error-message">{error}</div>}
+        
+        <div className="run-actions">
+          <button 
+            onClick={handleClick} 
+            disabled={isGenerating}
+            className={isGenerating ? 'loading' : ''}
+          >
+            {isGenerating ? (
+              <>
+                <span className="spinner"></span>
+                Generating...
+                {capacityProgress && (
+                  <span className="progress-label">
+                    {capacityProgress.stage} · {formatRowCount(capacityProgress.rowCount)} rows
+                  </span>
+                )}
+                {stressProgress && (
+                  <span className="progress-label">
+                    {stressProgress.completed + stressProgress.failed}/{stressProgress.total}
+                    {stressProgress.failed > 0 && ` · ${stressProgress.failed} failed`}
+                  </span>
+                )}
+                {progress && (mode === 'sweep' || warmupRuns > 0 || measuredRuns > 1) && (
+                  <span className="progress-label">
+                    {'rowCount' in progress && `${formatRowCount(progress.rowCount)} rows · `}
+                    {progress.phase === 'warmup' ? 'warm-up' : 'run'} {progress.run}/{progress.total}
+                  </span>
+                )}
+              </>
+            ) : (
+              'Generate PDF'
+            )}
+          </button>
+          {isGenerating && (
+            <button className="secondary-button danger" onClick={handleCancel}>
+              Cancel
+            </button>
+          )}
+        </div>
+        
+        {benchmark && <MetricsTable result={benchmark} />}
+        
+        {benchmark?.structure && <PdfStructureTable structure={benchmark.structure} />}
+        
+        {benchmark && (
+          <ExportButtons
+            results={{ benchmark: toMeasurement(benchmark) }}
+            name={`${id}-benchmark-${benchmark.config.rowCount}-rows`}
+          />
+        )}
+        
+        {stress && <StressTable result={stress} />}
+        
+        {capacity && <CapacityTable result={capacity} />}
+        
+        {sweep && (
+          <>
+            <SweepTable sweep={sweep} />
+            <ExportButtons results={{ sweep }} name={`${id}-sweep`} />
+          </>
         )}
         
         {pdfSrc && viewType === 'inline' && (
@@ -166,177 +599,23 @@ const PdfCard: FC<PdfCardProps> = ({ label, onGenerateClick }) => {
   );
 };
 
-const PdfCards: FC = () => {
-  const handlePdfMakeGenerate = async (
-    rowCount: number, 
-    shouldDownload: boolean,
-    viewType: 'newTab' | 'inline'
-  ): Promise<{ metrics: PdfGenerationMetrics, inlinePdfUrl?: string }> => {
-    try {
-      const result = await generatePdf(rowCount);
-      let inlinePdfUrl: string | undefined;
-      
-      if (shouldDownload) {
-        downloadPdf(result.pdfData, `pdfmake-report-${rowCount}-rows.pdf`);
-      } else if (viewType === 'newTab') {
-        openPdfInNewTab(result.pdfData);
-      } else if (viewType === 'inline') {
-        // Create a blob URL for inline display
-        const byteCharacters = atob(result.pdfData);
-        const byteNumbers = new Array(byteCharacters.length);
-        
-        for (let i = 0; i < byteCharacters.length; i++) {
-          byteNumbers[i] = byteCharacters.charCodeAt(i);
-        }
-        
-        const byteArray = new Uint8Array(byteNumbers);
-        const blob = new Blob([byteArray], { type: 'application/pdf' });
-        inlinePdfUrl = URL.createObjectURL(blob);
-      }
-      
-      return { 
-        metrics: result.metrics,
-        inlinePdfUrl
-      };
-    } catch (error) {
-      console.error('Error generating PDF with PdfMake:', error);
-      throw error;
-    }
-  };
-
-  const handlePdfLibGenerate = async (
-    rowCount: number,
-    shouldDownload: boolean,
-    viewType: 'newTab' | 'inline'
-  ): Promise<{ metrics: PdfGenerationMetrics, inlinePdfUrl?: string }> => {
-    try {
-      const result = await generatePdfWithPdfLib(rowCount);
-      let inlinePdfUrl: string | undefined;
-      
-      if (shouldDownload) {
-        downloadPdf(result.pdfData, `pdflib-report-${rowCount}-rows.pdf`);
-      } else if (viewType === 'newTab') {
-        openPdfInNewTab(result.pdfData);
-      } else if (viewType === 'inline') {
-        // Create a blob URL for inline display
-        const byteCharacters = atob(result.pdfData);
-        const byteNumbers = new Array(byteCharacters.length);
-        
-        for (let i = 0; i < byteCharacters.length; i++) {
-          byteNumbers[i] = byteCharacters.charCodeAt(i);
-        }
-        
-        const byteArray = new Uint8Array(byteNumbers);
-        const blob = new Blob([byteArray], { type: 'application/pdf' });
-        inlinePdfUrl = URL.createObjectURL(blob);
-      }
-      
-      return { 
-        metrics: result.metrics,
-        inlinePdfUrl
-      };
-    } catch (error) {
-      console.error('Error generating PDF with PdfLib:', error);
-      throw error;
-    }
-  };
-
-  const handleTypstGenerate = async (
-    rowCount: number,
-    shouldDownload: boolean,
-    viewType: 'newTab' | 'inline'
-  ): Promise<{ metrics: PdfGenerationMetrics, inlinePdfUrl?: string }> => {
-    try {
-      const result = await generatePdfWithTypst(rowCount);
-      let inlinePdfUrl: string | undefined;
-      
-      if (shouldDownload) {
-        downloadPdf(result.pdfData, `typst-report-${rowCount}-rows.pdf`);
-      } else if (viewType === 'newTab') {
-        openPdfInNewTab(result.pdfData);
-      } else if (viewType === 'inline') {
-        // Create a blob URL for inline display
-        const byteCharacters = atob(result.pdfData);
-        const byteNumbers = new Array(byteCharacters.length);
-        
-        for (let i = 0; i < byteCharacters.length; i++) {
-          byteNumbers[i] = byteCharacters.charCodeAt(i);
-        }
-        
-        const byteArray = new Uint8Array(byteNumbers);
-        const blob = new Blob([byteArray], { type: 'application/pdf' });
-        inlinePdfUrl = URL.createObjectURL(blob);
-      }
-      
-      return { 
-        metrics: result.metrics,
-        inlinePdfUrl
-      };
-    } catch (error) {
-      console.error('Error generating PDF with Typst:', error);
-      throw error;
-    }
-  };
+interface PdfCardsProps {
+  schema: DatasetSchema;
+}
 
-  const handlePdfMeGenerate = async (
-    rowCount: number,
-    shouldDownload: boolean,
-    viewType: 'newTab' | 'inline'
-  ): Promise<{ metrics: PdfGenerationMetrics, inlinePdfUrl?: string }> => {
-    try {
-      const result = await generatePdfWithPdfMe(rowCount);
-      let inlinePdfUrl: string | undefined;
-      
-      if (shouldDownload) {
-        downloadPdf(result.pdfData, `pdfme-report-${rowCount}-rows.pdf`);
-      } else if (viewType === 'newTab') {
-        openPdfInNewTab(result.pdfData);
-      } else if (viewType === 'inline') {
-        // Create a blob URL for inline display
-        const byteCharacters = atob(result.pdfData);
-        const byteNumbers = new Array(byteCharacters.length);
-        
-        for (let i = 0; i < byteCharacters.length; i++) {
-          byteNumbers[i] = byteCharacters.charCodeAt(i);
-        }
-        
-        const byteArray = new Uint8Array(byteNumbers);
-        const blob = new Blob([byteArray], { type: 'application/pdf' });
-        inlinePdfUrl = URL.createObjectURL(blob);
-      }
-      
-      return { 
-        metrics: result.metrics,
-        inlinePdfUrl
-      };
-    } catch (error) {
-      console.error('Error generating PDF with PDFme:', error);
-      throw error;
-    }
-  };
+const PdfCards: FC<PdfCardsProps> = ({ schema }) => {
+  // Terminate pooled workers when the benchmark unmounts
+  useEffect(() => cleanupWorkerPools, []);
 
   return (
     <div className="pdf-cards">
       <div className="cards-row">
-        <PdfCard 
-          label="PdfMake" 
-          onGenerateClick={handlePdfMakeGenerate}
-        />
-        <PdfCard 
-          label="PDF-Lib" 
-          onGenerateClick={handlePdfLibGenerate}
-        />
-        <PdfCard 
-          label="Typst" 
-          onGenerateClick={handleTypstGenerate}
-        />
-        <PdfCard 
-          label="PDFme" 
-          onGenerateClick={handlePdfMeGenerate}
-        />
+        {engines.map(engine => (
+          <PdfCard key={engine.id} engine={engine} schema={schema} />
+        ))}
       </div>
     </div>
   );
 };
 
-export default PdfCards; 
\ No newline at end of file
+export default PdfCards;
@@ -0,0 +1,70 @@
+import { FC } from 'react';
+import { formatBytes } from './utils/pdfService';
+import type { PdfStreamStats, PdfStructure } from './utils/pdfStructure';
+
+interface PdfStructureTableProps {
+  structure: PdfStructure;
+}
+
+// How much the deflated streams were compressed, e.g. "4.2×"; a dash if none is deflated
+function formatCompressionRatio(stats: PdfStreamStats): string {
+  return stats.deflatedBytes > 0 ? `${(stats.inflatedBytes / stats.deflatedBytes).toFixed(1)}×` : '–';
+}
+
+// Deflated share of a set of streams and how much they shrank
+function describeStreams(stats: PdfStreamStats): string {
+  if (stats.count === 0) {
+    return 'None';
+  }
+  return `${stats.deflated} of ${stats.count} deflated · ${formatBytes(stats.bytes)} · ${formatCompressionRatio(stats)} compression`;
+}
+
+// What the engine produced: file layout, fonts and stream compression of the final PDF
+const PdfStructureTable: FC<PdfStructureTableProps> = ({ structure }) => (
+  <div className="metrics">
+    <h3>PDF Structure</h3>
+    <p className="metrics-caption">Output of the final measured run</p>
+    <table>
+      <tbody>
+        <tr>
+          <td>Size:</td>
+          <td>{formatBytes(structure.size)} · PDF {structure.version || 'unknown version'}</td>
+        </tr>
+        <tr>
+          <td>Pages:</td>
+          <td>{structure.pageCount}</td>
+        </tr>
+        <tr>
+          <td>Objects:</td>
+          <td>
+            {structure.objectCount}
+            {structure.objectStreamCount > 0 && ` · ${structure.objectStreamCount} object ${structure.objectStreamCount === 1 ? 'stream' : 'streams'}`}
+            {structure.xrefStream ? ' · cross-reference stream' : ' · cross-reference table'}
+          </td>
+        </tr>
+        <tr>
+          <td>Content Streams:</td>
+          <td>{describeStreams(structure.contentStreams)}</td>
+        </tr>
+        <tr>
+          <td>All Streams:</td>
+          <td>{describeStreams(structure.streams)}</td>
+        </tr>
+        <tr>
+          <td>Fonts:</td>
+          <td>
+            {structure.fonts.length === 0
+              ? 'None'
+              : structure.fonts.map((font, i) => (
+                <div key={`${font.name}-${i}`}>
+                  {font.name} ({font.subtype}, {font.embedded ? 'embedded' : 'referenced'})
+                </div>
+              ))}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+  </div>
+);
+
+export default PdfStructureTable;
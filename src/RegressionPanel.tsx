@@ -0,0 +1,221 @@
+import { ChangeEvent, FC, useCallback, useEffect, useState } from 'react';
+import { getEngine } from './engines/registry';
+import { BenchmarkMeasurement } from './utils/benchmarkRunner';
+import { HistorySession, historyEvents, listSessions } from './utils/historyStore';
+import { PHASES } from './utils/metrics';
+import { formatTime } from './utils/pdfService';
+import { compareMeasurements, RegressionVerdict } from './utils/regression';
+import { getMeasurements, parseResultsFile } from './utils/resultsFile';
+import { formatPValue, SIGNIFICANCE_LABELS } from './utils/significance';
+import { formatRowCount } from './utils/rowCounts';
+
+// A set of measurements picked from history or loaded from an exported file
+interface RunSet {
+  label: string;
+  measurements: BenchmarkMeasurement[];
+}
+
+const VERDICT_LABELS: Record<RegressionVerdict, string> = {
+  regression: 'Regression',
+  improvement: 'Improvement',
+  unchanged: 'Unchanged',
+  noise: 'Within noise'
+};
+
+function sessionKey(session: HistorySession): string {
+  return `${session.timestamp}|${session.source}`;
+}
+
+function sessionLabel(session: HistorySession): string {
+  const engineLabels = [...new Set(session.entries.map(entry => getEngine(entry.engineId)?.label ?? entry.engineId))];
+  const rowCounts = [...new Set(session.entries.map(entry => formatRowCount(entry.config.rowCount)))];
+
+  return `${new Date(session.timestamp).toLocaleString()} · ${session.source} · ${engineLabels.join(', ')} · ${rowCounts.join(', ')} rows`;
+}
+
+interface RunSetPickerProps {
+  id: string;
+  title: string;
+  sessions: HistorySession[];
+  runSet: RunSet | null;
+  onChange: (runSet: RunSet) => void;
+  onError: (message: string) => void;
+}
+
+// Chooses one side of the comparison from a history session or an imported file
+const RunSetPicker: FC<RunSetPickerProps> = ({ id, title, sessions, runSet, onChange, onError }) => {
+  const handleSessionChange = (key: string) => {
+    const session = sessions.find(s => sessionKey(s) === key);
+    if (session) {
+      onChange({ label: sessionLabel(session), measurements: session.entries });
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const measurements = getMeasurements(parseResultsFile(await file.text()));
+      if (measurements.length === 0) {
+        throw new Error(`${file.name} contains no measurements`);
+      }
+      onChange({ label: file.name, measurements });
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Unknown error occurred');
+    }
+  };
+
+  return (
+    <div className="input-group run-set-picker">
+      <label htmlFor={`runSet-${id}`}>{title}:</label>
+      <select
+        id={`runSet-${id}`}
+        value=""
+        onChange={(e) => handleSessionChange(e.target.value)}
+      >
+        <option value="">Choose a saved run…</option>
+        {sessions.map(session => (
+          <option key={sessionKey(session)} value={sessionKey(session)}>
+            {sessionLabel(session)}
+          </option>
+        ))}
+      </select>
+      <label className="secondary-button">
+        Import File
+        <input type="file" accept=".json,application/json" onChange={handleImport} hidden />
+      </label>
+      <p className="metrics-caption">{runSet ? runSet.label : 'Nothing selected'}</p>
+    </div>
+  );
+};
+
+const RegressionPanel: FC = () => {
+  const [sessions, setSessions] = useState<HistorySession[]>([]);
+  const [baseline, setBaseline] = useState<RunSet | null>(null);
+  const [candidate, setCandidate] = useState<RunSet | null>(null);
+  const [thresholdPercent, setThresholdPercent] = useState<number>(5);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read run history');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+    historyEvents.addEventListener('change', loadSessions);
+    return () => historyEvents.removeEventListener('change', loadSessions);
+  }, [loadSessions]);
+
+  const report = baseline && candidate
+    ? compareMeasurements(baseline.measurements, candidate.measurements, thresholdPercent)
+    : null;
+
+  const selectRunSet = (setter: (runSet: RunSet) => void) => (runSet: RunSet) => {
+    setError(null);
+    setter(runSet);
+  };
+
+  return (
+    <div className="comparison-panel regression-panel">
+      <h2>Regression Check</h2>
+      <div className="comparison-controls">
+        <RunSetPicker
+          id="baseline"
+          title="Baseline"
+          sessions={sessions}
+          runSet={baseline}
+          onChange={selectRunSet(setBaseline)}
+          onError={setError}
+        />
+        <RunSetPicker
+          id="candidate"
+          title="Candidate"
+          sessions={sessions}
+          runSet={candidate}
+          onChange={selectRunSet(setCandidate)}
+          onError={setError}
+        />
+        <div className="input-group">
+          <label htmlFor="regression-threshold">Regression Threshold (%):</label>
+          <input
+            id="regression-threshold"
+            type="number"
+            min="0"
+            step="0.5"
+            value={thresholdPercent}
+            onChange={(e) => setThresholdPercent(Math.max(0, parseFloat(e.target.value) || 0))}
+          />
+        </div>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {report && (
+        <div className="metrics">
+          <h3>Differences</h3>
+          {report.diffs.length === 0 ? (
+            <p className="metrics-caption">The two runs have no engine and row count in common with the same settings.</p>
+          ) : (
+            <div className="stats-table-wrapper">
+              <table className="stats-table regression-table">
+                <thead>
+                  <tr>
+                    <th>Engine</th>
+                    <th>Rows</th>
+                    <th>Phase</th>
+                    <th>Baseline</th>
+                    <th>Candidate</th>
+                    <th>Δ</th>
+                    <th>Δ%</th>
+                    <th title="Differences smaller than twice the standard error are treated as noise">Verdict</th>
+                    <th title="Two-sided Mann–Whitney U test of the candidate against the baseline, α = 0.05">Significance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.diffs.flatMap(diff => diff.phases.map(phase => (
+                    <tr key={`${diff.engineId}@${diff.rowCount}-${phase.phase}`} className={`verdict-${phase.verdict}`}>
+                      <td>{getEngine(diff.engineId)?.label ?? diff.engineId}</td>
+                      <td>{formatRowCount(diff.rowCount)}</td>
+                      <td>{PHASES.find(p => p.key === phase.phase)?.label}</td>
+                      <td>{formatTime(phase.baseline)}</td>
+                      <td>{formatTime(phase.candidate)}</td>
+                      <td>{phase.delta >= 0 ? '+' : '−'}{formatTime(Math.abs(phase.delta))}</td>
+                      <td>{phase.percentChange >= 0 ? '+' : ''}{phase.percentChange.toFixed(1)}%</td>
+                      <td>{VERDICT_LABELS[phase.verdict]}</td>
+                      <td className={`significance-${phase.significance.verdict}`}>
+                        {SIGNIFICANCE_LABELS[phase.significance.verdict]} ({formatPValue(phase.significance.pValue)})
+                      </td>
+                    </tr>
+                  )))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {(report.onlyInBaseline.length > 0 || report.onlyInCandidate.length > 0) && (
+            <p className="metrics-caption">
+              Not compared: {[...report.onlyInBaseline.map(key => `${key} (baseline only)`),
+                ...report.onlyInCandidate.map(key => `${key} (candidate only)`)].join(', ')}
+            </p>
+          )}
+          {report.configMismatches.length > 0 && (
+            <p className="metrics-caption">
+              Not compared, run with different settings: {report.configMismatches
+                .map(({ key, settings }) => `${key} (${settings.join(', ')})`)
+                .join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegressionPanel;
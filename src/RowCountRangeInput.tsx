@@ -0,0 +1,84 @@
+import { FC } from 'react';
+import { RowCountRange } from './utils/rowCounts';
+
+interface RowCountRangeInputProps {
+  id: string;
+  range: RowCountRange;
+  onChange: (range: RowCountRange) => void;
+}
+
+// Edits the row counts of a sweep as an explicit list or a geometric series
+const RowCountRangeInput: FC<RowCountRangeInputProps> = ({ id, range, onChange }) => {
+  return (
+    <div className="input-group range-input">
+      <div className="radio-group">
+        <label>
+          <input
+            type="radio"
+            name={`rangeKind-${id}`}
+            checked={range.kind === 'list'}
+            onChange={() => onChange({ kind: 'list', text: '10, 100, 1k, 10k, 50k' })}
+          />
+          <span>List</span>
+        </label>
+        <label>
+          <input
+            type="radio"
+            name={`rangeKind-${id}`}
+            checked={range.kind === 'geometric'}
+            onChange={() => onChange({ kind: 'geometric', start: 10, end: 50000, points: 6 })}
+          />
+          <span>Geometric</span>
+        </label>
+      </div>
+      
+      {range.kind === 'list' ? (
+        <div>
+          <label htmlFor={`rowCountList-${id}`}>Row Counts:</label>
+          <input
+            id={`rowCountList-${id}`}
+            type="text"
+            value={range.text}
+            placeholder="10, 100, 1k, 10k, 50k"
+            onChange={(e) => onChange({ kind: 'list', text: e.target.value })}
+          />
+        </div>
+      ) : (
+        <div className="range-fields">
+          <div>
+            <label htmlFor={`rangeStart-${id}`}>From:</label>
+            <input
+              id={`rangeStart-${id}`}
+              type="number"
+              min="1"
+              value={range.start}
+              onChange={(e) => onChange({ ...range, start: parseInt(e.target.value) || 1 })}
+            />
+          </div>
+          <div>
+            <label htmlFor={`rangeEnd-${id}`}>To:</label>
+            <input
+              id={`rangeEnd-${id}`}
+              type="number"
+              min="1"
+              value={range.end}
+              onChange={(e) => onChange({ ...range, end: parseInt(e.target.value) || 1 })}
+            />
+          </div>
+          <div>
+            <label htmlFor={`rangePoints-${id}`}>Points:</label>
+            <input
+              id={`rangePoints-${id}`}
+              type="number"
+              min="2"
+              value={range.points}
+              onChange={(e) => onChange({ ...range, points: parseInt(e.target.value) || 2 })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RowCountRangeInput;
@@ -0,0 +1,83 @@
+import { FC } from 'react';
+import BoxPlot from './charts/BoxPlot';
+import { RUN_STATUS_LABELS } from './utils/benchmarkRunner';
+import { formatTime } from './utils/pdfService';
+import { StressResult } from './utils/stressRunner';
+
+interface StressTableProps {
+  result: StressResult;
+}
+
+const StressTable: FC<StressTableProps> = ({ result }) => {
+  const { config, latency, failures } = result;
+  const failed = failures.reduce((sum, failure) => sum + failure.count, 0);
+
+  return (
+    <div className="metrics">
+      <h3>Throughput</h3>
+      <p className="metrics-caption">
+        {config.documents} documents · {config.concurrency} concurrent · {config.rowCount.toLocaleString()} rows each
+        {config.warmup && ' · workers warmed up first'}
+        {result.status !== 'completed' && ` · ${RUN_STATUS_LABELS[result.status].toLowerCase()}`}
+      </p>
+      <table>
+        <tbody>
+          <tr className="total">
+            <td>Throughput:</td>
+            <td>{result.throughput.toFixed(2)} docs/s</td>
+          </tr>
+          <tr>
+            <td>Completed:</td>
+            <td>{result.completed} in {formatTime(result.duration)}</td>
+          </tr>
+          <tr className={failed > 0 ? 'failed' : undefined}>
+            <td>Failed:</td>
+            <td>{failed}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {latency.count > 0 && (
+        <>
+          <div className="stats-table-wrapper">
+            <table className="stats-table">
+              <thead>
+                <tr>
+                  <th>Latency</th>
+                  <th>Min</th>
+                  <th>Median</th>
+                  <th>Mean</th>
+                  <th>p95</th>
+                  <th>Max</th>
+                  <th>σ</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td>Request to response</td>
+                  <td>{formatTime(latency.min)}</td>
+                  <td>{formatTime(latency.median)}</td>
+                  <td>{formatTime(latency.mean)}</td>
+                  <td>{formatTime(latency.p95)}</td>
+                  <td>{formatTime(latency.max)}</td>
+                  <td>{formatTime(latency.stdDev)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <BoxPlot boxes={[{ label: 'Latency', values: result.latencies }]} formatValue={formatTime} />
+        </>
+      )}
+
+      {failures.length > 0 && (
+        <div className="error-message">
+          {failures.map(failure => (
+            <div key={failure.error}>{failure.count}× {failure.error}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StressTable;
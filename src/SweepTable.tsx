@@ -0,0 +1,89 @@
+import { FC } from 'react';
+import LineChart from './charts/LineChart';
+import { SweepResult } from './utils/benchmarkRunner';
+import { formatBytes, formatTime } from './utils/pdfService';
+import { formatRowCount } from './utils/rowCounts';
+
+interface SweepTableProps {
+  sweep: SweepResult;
+}
+
+// Log-log slope between two points: ~1 means linear scaling, ~2 quadratic
+function scalingExponent(rows1: number, time1: number, rows2: number, time2: number): number {
+  return Math.log(time2 / time1) / Math.log(rows2 / rows1);
+}
+
+const SweepTable: FC<SweepTableProps> = ({ sweep }) => {
+  const { points } = sweep;
+  const rows = points.map(point => point.config.rowCount);
+
+  return (
+    <div className="metrics">
+      <h3>Scaling</h3>
+      {points.length > 1 && (
+        <>
+          <LineChart
+            series={[{ label: 'Median total', points: points.map((point, i) => ({ x: rows[i], y: point.summary.total.median })) }]}
+            formatX={formatRowCount}
+            formatY={formatTime}
+            xLabel="Rows"
+            yLabel="Time"
+            logX
+            logY
+          />
+          <LineChart
+            series={[{ label: 'PDF size', points: points.map((point, i) => ({ x: rows[i], y: point.pdfSize })) }]}
+            formatX={formatRowCount}
+            formatY={formatBytes}
+            xLabel="Rows"
+            yLabel="Size"
+            logX
+            logY
+          />
+        </>
+      )}
+      <div className="stats-table-wrapper">
+        <table className="stats-table">
+          <thead>
+            <tr>
+              <th>Rows</th>
+              <th>Median Total</th>
+              <th>Per 1k Rows</th>
+              <th title="Log-log slope against the previous point: ~1 linear, ~2 quadratic">Scaling</th>
+              <th>Size</th>
+              <th>Bytes/Row</th>
+            </tr>
+          </thead>
+          <tbody>
+            {points.map((point, i) => {
+              const { rowCount } = point.config;
+              const median = point.summary.total.median;
+              const previous = points[i - 1];
+              const exponent = previous
+                ? scalingExponent(previous.config.rowCount, previous.summary.total.median, rowCount, median)
+                : NaN;
+
+              return (
+                <tr key={rowCount} className={exponent > 1.3 ? 'superlinear' : undefined}>
+                  <td>{formatRowCount(rowCount)}</td>
+                  <td>{formatTime(median)}</td>
+                  <td>{formatTime((median / rowCount) * 1000)}</td>
+                  <td>{Number.isFinite(exponent) ? exponent.toFixed(2) : '–'}</td>
+                  <td>{formatBytes(point.pdfSize)}</td>
+                  <td>{(point.pdfSize / rowCount).toFixed(1)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {sweep.error && (
+        <div className="error-message">
+          Stopped at {formatRowCount(sweep.failedRowCount!)} rows: {sweep.error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SweepTable;
@@ -0,0 +1,363 @@
+import { FC, useEffect, useMemo, useRef, useState } from 'react';
+import { engines, getEngine } from './engines/registry';
+import { getDefaultOptions } from './engines/types';
+import { DatasetSchema } from './generators/dataset';
+import { describeFailure, RUN_STATUS_LABELS, RunStatus } from './utils/benchmarkRunner';
+import { deleteGolden, getGolden, GoldenImage, goldenKey, saveGolden } from './utils/historyStore';
+import { diffImages, imageToDataUrl, imageToPng, pngToImage } from './utils/imageDiff';
+import { generatePdf } from './utils/pdfService';
+
+// Pixels per PDF point of the thumbnails; an A4 page renders about 300 pixels wide
+const THUMBNAIL_SCALE = 0.5;
+
+// Reference choice meaning each engine's own saved golden image rather than another engine
+const GOLDEN_REFERENCE = 'golden';
+
+interface EngineRendering {
+  engineId: string;
+  status: RunStatus;
+  pages: ImageData[];
+  // Data URLs of the pages, encoded once for display
+  thumbnails: string[];
+  pageCount: number;
+  error?: string;
+}
+
+interface LoadedGolden {
+  golden: GoldenImage;
+  pages: ImageData[];
+}
+
+interface PageDiff {
+  thumbnail: string;
+  // Share of pixels that differ from the reference page, 0 to 1
+  ratio: number;
+}
+
+function engineLabel(engineId: string): string {
+  return getEngine(engineId)?.label ?? engineId;
+}
+
+// Describe how far a page is from its reference
+function formatDiffRatio(ratio: number): string {
+  if (ratio === 0) {
+    return 'Identical';
+  }
+  return `${(ratio * 100).toFixed(ratio < 0.001 ? 3 : 1)}% of pixels differ`;
+}
+
+interface VisualDiffPanelProps {
+  schema: DatasetSchema;
+}
+
+const VisualDiffPanel: FC<VisualDiffPanelProps> = ({ schema }) => {
+  const [rowCount, setRowCount] = useState<number>(100);
+  const [maxPages, setMaxPages] = useState<number>(2);
+  const [reference, setReference] = useState<string>('');
+  const [isRendering, setIsRendering] = useState<boolean>(false);
+  const [progressEngineId, setProgressEngineId] = useState<string | null>(null);
+  // Row count and schema of the renderings shown, which golden images are kept for
+  const [renderedRowCount, setRenderedRowCount] = useState<number | null>(null);
+  const [renderedSchema, setRenderedSchema] = useState<DatasetSchema>(schema);
+  const [renderings, setRenderings] = useState<EngineRendering[]>([]);
+  // Golden image saved for each engine at the rendered row count and schema
+  const [goldens, setGoldens] = useState<Map<string, LoadedGolden>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Load the golden image each engine saved for the rendered row count and schema
+  useEffect(() => {
+    if (renderedRowCount === null) {
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      const loaded = new Map<string, LoadedGolden>();
+      for (const engine of engines) {
+        const saved = await getGolden(goldenKey(engine.id, renderedRowCount, renderedSchema));
+        if (saved) {
+          loaded.set(engine.id, { golden: saved, pages: await Promise.all(saved.pages.map(pngToImage)) });
+        }
+      }
+      if (!cancelled) {
+        setGoldens(loaded);
+      }
+    })().catch(err => {
+      setError(err instanceof Error ? err.message : 'Could not read the golden images');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [renderedRowCount, renderedSchema]);
+
+  const handleRender = async () => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsRendering(true);
+    setRenderings([]);
+    setRenderedRowCount(null);
+    setGoldens(new Map());
+    setError(null);
+
+    try {
+      // pdf.js is only needed once pages are rendered, so it stays out of the initial bundle
+      const { renderPages } = await import('./utils/pdfRender');
+      const results: EngineRendering[] = [];
+
+      for (const engine of engines) {
+        if (abortController.signal.aborted) {
+          results.push({ engineId: engine.id, status: 'cancelled', pages: [], thumbnails: [], pageCount: 0, error: 'Cancelled' });
+          continue;
+        }
+
+        setProgressEngineId(engine.id);
+        try {
+          const { pdf } = await generatePdf(engine, rowCount, getDefaultOptions(engine), { signal: abortController.signal, schema });
+          const { pages, pageCount } = await renderPages(new Uint8Array(await pdf.arrayBuffer()), THUMBNAIL_SCALE, maxPages);
+          results.push({ engineId: engine.id, status: 'completed', pages, thumbnails: pages.map(imageToDataUrl), pageCount });
+        } catch (err) {
+          results.push({ engineId: engine.id, pages: [], thumbnails: [], pageCount: 0, ...describeFailure(err, {}) });
+        }
+        // Show each engine as soon as it is rendered
+        setRenderings([...results]);
+      }
+
+      setRenderedRowCount(rowCount);
+      setRenderedSchema(schema);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      abortControllerRef.current = null;
+      setIsRendering(false);
+      setProgressEngineId(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleSaveGolden = async (rendering: EngineRendering) => {
+    if (renderedRowCount === null) {
+      return;
+    }
+
+    try {
+      const saved: GoldenImage = {
+        key: goldenKey(rendering.engineId, renderedRowCount, renderedSchema),
+        engineId: rendering.engineId,
+        rowCount: renderedRowCount,
+        schema: renderedSchema,
+        savedAt: new Date().toISOString(),
+        scale: THUMBNAIL_SCALE,
+        pages: await Promise.all(rendering.pages.map(imageToPng))
+      };
+      await saveGolden(saved);
+      setGoldens(current => new Map(current).set(rendering.engineId, { golden: saved, pages: rendering.pages }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the golden image');
+    }
+  };
+
+  const handleDeleteGolden = async (engineId: string) => {
+    const loaded = goldens.get(engineId);
+    if (!loaded) {
+      return;
+    }
+
+    try {
+      await deleteGolden(loaded.golden.key);
+      setGoldens(current => {
+        const next = new Map(current);
+        next.delete(engineId);
+        return next;
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the golden image');
+    }
+  };
+
+  // Diffing is pixel by pixel, so only redo it when the pages or the reference change
+  const diffs = useMemo(() => {
+    const byEngine = new Map<string, (PageDiff | null)[]>();
+    const engineReference = renderings.find(rendering => rendering.engineId === reference)?.pages;
+
+    for (const rendering of renderings) {
+      // Against golden images, each engine is compared with its own
+      const referencePages = reference === GOLDEN_REFERENCE ? goldens.get(rendering.engineId)?.pages : engineReference;
+      if (!referencePages || rendering.engineId === reference) {
+        continue;
+      }
+      byEngine.set(rendering.engineId, rendering.pages.map((page, i) => {
+        if (!referencePages[i]) {
+          return null;
+        }
+        const diff = diffImages(page, referencePages[i]);
+        return { thumbnail: imageToDataUrl(diff.image), ratio: diff.differentPixels / diff.totalPixels };
+      }));
+    }
+
+    return byEngine;
+  }, [renderings, reference, goldens]);
+
+  const pageIndexes = Array.from(
+    { length: Math.max(0, ...renderings.map(rendering => rendering.pages.length)) },
+    (_, i) => i
+  );
+
+  return (
+    <div className="comparison-panel visual-diff-panel">
+      <h2>Rendered Output</h2>
+      <div className="comparison-controls">
+        <div className="input-group">
+          <label htmlFor="visual-rowCount">Number of Rows:</label>
+          <input
+            id="visual-rowCount"
+            type="number"
+            min="1"
+            value={rowCount}
+            onChange={(e) => setRowCount(parseInt(e.target.value) || 100)}
+          />
+        </div>
+        <div className="input-group">
+          <label htmlFor="visual-maxPages">Pages to Render:</label>
+          <input
+            id="visual-maxPages"
+            type="number"
+            min="1"
+            value={maxPages}
+            onChange={(e) => setMaxPages(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </div>
+        <div className="input-group">
+          <label htmlFor="visual-reference">Diff Against:</label>
+          <select
+            id="visual-reference"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+          >
+            <option value="">Nothing</option>
+            {engines.map(engine => (
+              <option key={engine.id} value={engine.id}>{engine.label}</option>
+            ))}
+            <option value={GOLDEN_REFERENCE} disabled={goldens.size === 0}>Each engine's golden image</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="run-actions">
+        <button
+          onClick={handleRender}
+          disabled={isRendering}
+          className={isRendering ? 'loading' : ''}
+        >
+          {isRendering ? (
+            <>
+              <span className="spinner"></span>
+              Rendering...
+              {progressEngineId && <span className="progress-label">{engineLabel(progressEngineId)}</span>}
+            </>
+          ) : (
+            'Render All Engines'
+          )}
+        </button>
+        {isRendering && (
+          <button className="secondary-button danger" onClick={handleCancel}>
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {renderings.length > 0 && (
+        <div className="metrics">
+          <h3>Pages</h3>
+          <p className="metrics-caption">
+            {renderedRowCount !== null && `${renderedRowCount.toLocaleString()} rows · `}
+            Every engine with its default options · each keeps its own golden image for these rows and columns
+          </p>
+          <div className="thumbnail-grid-wrapper">
+            <table className="thumbnail-grid">
+              <thead>
+                <tr>
+                  {renderings.map(rendering => {
+                    const saved = goldens.get(rendering.engineId)?.golden;
+
+                    return (
+                      <th key={rendering.engineId} className={rendering.engineId === reference ? 'reference' : undefined}>
+                        {engineLabel(rendering.engineId)}
+                        {rendering.status === 'completed' && (
+                          <>
+                            <span className="thumbnail-caption">
+                              {rendering.pageCount} {rendering.pageCount === 1 ? 'page' : 'pages'}
+                            </span>
+                            <span className="thumbnail-caption">
+                              {saved ? `Golden saved ${new Date(saved.savedAt).toLocaleString()}` : 'No golden image'}
+                            </span>
+                            <button
+                              className="secondary-button"
+                              disabled={renderedRowCount === null}
+                              onClick={() => handleSaveGolden(rendering)}
+                            >
+                              Save as Golden
+                            </button>
+                            {saved && (
+                              <button className="secondary-button danger" onClick={() => handleDeleteGolden(rendering.engineId)}>
+                                Delete Golden
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {pageIndexes.map(pageIndex => (
+                  <tr key={pageIndex}>
+                    {renderings.map(rendering => {
+                      if (rendering.status !== 'completed') {
+                        return (
+                          <td key={rendering.engineId} className="failed">
+                            {pageIndex === 0 && `${RUN_STATUS_LABELS[rendering.status]}: ${rendering.error}`}
+                          </td>
+                        );
+                      }
+
+                      const thumbnail = rendering.thumbnails[pageIndex];
+                      const diff = diffs.get(rendering.engineId)?.[pageIndex];
+
+                      return (
+                        <td key={rendering.engineId}>
+                          {thumbnail && (
+                            <>
+                              <img
+                                src={diff ? diff.thumbnail : thumbnail}
+                                alt={`${engineLabel(rendering.engineId)} page ${pageIndex + 1}`}
+                              />
+                              <span className="thumbnail-caption">
+                                Page {pageIndex + 1}
+                                {diff && ` · ${formatDiffRatio(diff.ratio)}`}
+                                {diff === null && ' · no reference page'}
+                              </span>
+                            </>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VisualDiffPanel;
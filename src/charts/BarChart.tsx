@@ -0,0 +1,83 @@
+import { FC } from 'react';
+import { Legend, YAxis } from './ChartParts';
+import { ChartArea, linearScale, niceTicks, seriesColor } from './scales';
+
+export interface BarSeries {
+  label: string;
+  // One value per group, in group order
+  values: number[];
+}
+
+interface BarChartProps {
+  groups: string[];
+  series: BarSeries[];
+  formatValue: (value: number) => string;
+  yLabel?: string;
+  height?: number;
+}
+
+// Grouped bar chart: one cluster per group with one bar per series
+const BarChart: FC<BarChartProps> = ({ groups, series, formatValue, yLabel, height = 260 }) => {
+  const area: ChartArea = { width: 640, height, margin: { top: 12, right: 12, bottom: 28, left: 72 } };
+  const { margin, width } = area;
+  const max = Math.max(0, ...series.flatMap(s => s.values.filter(Number.isFinite)));
+  const ticks = niceTicks(0, max || 1);
+  const y = linearScale([0, ticks[ticks.length - 1]], [height - margin.bottom, margin.top]);
+
+  const groupWidth = (width - margin.left - margin.right) / Math.max(groups.length, 1);
+  const barWidth = (groupWidth * 0.8) / Math.max(series.length, 1);
+
+  return (
+    <div className="chart">
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" role="img">
+        <YAxis area={area} scale={y} ticks={ticks} format={formatValue} label={yLabel} />
+        {groups.map((group, g) => {
+          const groupX = margin.left + g * groupWidth + groupWidth * 0.1;
+
+          return (
+            <g key={group}>
+              {series.map((s, i) => {
+                const value = s.values[g];
+                if (!Number.isFinite(value)) {
+                  return null;
+                }
+
+                const top = y(Math.max(value, 0));
+                return (
+                  <rect
+                    key={s.label}
+                    x={groupX + i * barWidth}
+                    y={top}
+                    width={Math.max(barWidth - 2, 1)}
+                    height={height - margin.bottom - top}
+                    fill={seriesColor(i)}
+                  >
+                    <title>{`${group} · ${s.label}: ${formatValue(value)}`}</title>
+                  </rect>
+                );
+              })}
+              <text
+                className="chart-axis"
+                x={margin.left + (g + 0.5) * groupWidth}
+                y={height - margin.bottom + 16}
+                textAnchor="middle"
+              >
+                {group}
+              </text>
+            </g>
+          );
+        })}
+        <line
+          className="chart-baseline"
+          x1={margin.left}
+          x2={width - margin.right}
+          y1={height - margin.bottom}
+          y2={height - margin.bottom}
+        />
+      </svg>
+      {series.length > 1 && <Legend labels={series.map(s => s.label)} />}
+    </div>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,105 @@
+import { FC } from 'react';
+import { percentile } from '../utils/statistics';
+import { YAxis } from './ChartParts';
+import { ChartArea, linearScale, niceTicks, seriesColor } from './scales';
+
+export interface BoxData {
+  label: string;
+  values: number[];
+}
+
+interface BoxPlotProps {
+  boxes: BoxData[];
+  formatValue: (value: number) => string;
+  yLabel?: string;
+  height?: number;
+}
+
+// Quartiles with Tukey whiskers (furthest samples within 1.5 × IQR); the rest are outliers
+function boxStats(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = percentile(sorted, 25);
+  const q3 = percentile(sorted, 75);
+  const fence = 1.5 * (q3 - q1);
+  const inside = sorted.filter(v => v >= q1 - fence && v <= q3 + fence);
+
+  return {
+    q1,
+    median: percentile(sorted, 50),
+    q3,
+    low: inside[0],
+    high: inside[inside.length - 1],
+    outliers: sorted.filter(v => v < q1 - fence || v > q3 + fence)
+  };
+}
+
+// Box-and-whisker plot of sample distributions, one box per label
+const BoxPlot: FC<BoxPlotProps> = ({ boxes, formatValue, yLabel, height = 240 }) => {
+  const area: ChartArea = { width: 640, height, margin: { top: 12, right: 12, bottom: 28, left: 72 } };
+  const { margin, width } = area;
+  const nonEmpty = boxes.filter(box => box.values.length > 0);
+  const all = nonEmpty.flatMap(box => box.values);
+
+  if (all.length === 0) {
+    return null;
+  }
+
+  const ticks = niceTicks(Math.min(0, ...all), Math.max(...all));
+  const y = linearScale([ticks[0], ticks[ticks.length - 1]], [height - margin.bottom, margin.top]);
+  const slot = (width - margin.left - margin.right) / nonEmpty.length;
+  const boxWidth = Math.min(slot * 0.5, 60);
+
+  return (
+    <div className="chart">
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" role="img">
+        <YAxis area={area} scale={y} ticks={ticks} format={formatValue} label={yLabel} />
+        {nonEmpty.map((box, i) => {
+          const stats = boxStats(box.values);
+          const center = margin.left + (i + 0.5) * slot;
+          const color = seriesColor(i);
+
+          return (
+            <g key={box.label} stroke={color}>
+              <title>
+                {`${box.label}: median ${formatValue(stats.median)}, IQR ${formatValue(stats.q1)}–${formatValue(stats.q3)}`}
+              </title>
+              <line x1={center} x2={center} y1={y(stats.low)} y2={y(stats.q1)} />
+              <line x1={center} x2={center} y1={y(stats.q3)} y2={y(stats.high)} />
+              <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={y(stats.low)} y2={y(stats.low)} />
+              <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={y(stats.high)} y2={y(stats.high)} />
+              <rect
+                x={center - boxWidth / 2}
+                y={y(stats.q3)}
+                width={boxWidth}
+                height={Math.max(y(stats.q1) - y(stats.q3), 1)}
+                fill={color}
+                fillOpacity={0.2}
+              />
+              <line
+                x1={center - boxWidth / 2}
+                x2={center + boxWidth / 2}
+                y1={y(stats.median)}
+                y2={y(stats.median)}
+                strokeWidth={2}
+              />
+              {stats.outliers.map((value, j) => (
+                <circle key={j} cx={center} cy={y(value)} r={2.5} fill="none" />
+              ))}
+              <text
+                className="chart-axis"
+                stroke="none"
+                x={center}
+                y={height - margin.bottom + 16}
+                textAnchor="middle"
+              >
+                {box.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default BoxPlot;
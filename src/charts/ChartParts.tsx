@@ -0,0 +1,95 @@
+import { FC } from 'react';
+import { ChartArea, Scale, seriesColor } from './scales';
+
+interface YAxisProps {
+  area: ChartArea;
+  scale: Scale;
+  ticks: number[];
+  format: (value: number) => string;
+  label?: string;
+}
+
+// Vertical axis with horizontal grid lines across the plot
+export const YAxis: FC<YAxisProps> = ({ area, scale, ticks, format, label }) => {
+  const { margin, width, height } = area;
+
+  return (
+    <g className="chart-axis">
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line
+            className="chart-grid"
+            x1={margin.left}
+            x2={width - margin.right}
+            y1={scale(tick)}
+            y2={scale(tick)}
+          />
+          <text x={margin.left - 6} y={scale(tick)} textAnchor="end" dominantBaseline="middle">
+            {format(tick)}
+          </text>
+        </g>
+      ))}
+      {label && (
+        <text
+          className="chart-axis-label"
+          transform={`translate(12 ${(margin.top + height - margin.bottom) / 2}) rotate(-90)`}
+          textAnchor="middle"
+        >
+          {label}
+        </text>
+      )}
+    </g>
+  );
+};
+
+interface XAxisProps {
+  area: ChartArea;
+  ticks: { value: number; label: string }[];
+  scale: Scale;
+  label?: string;
+}
+
+// Horizontal axis along the bottom of the plot
+export const XAxis: FC<XAxisProps> = ({ area, ticks, scale, label }) => {
+  const { margin, width, height } = area;
+  const y = height - margin.bottom;
+
+  return (
+    <g className="chart-axis">
+      <line x1={margin.left} x2={width - margin.right} y1={y} y2={y} />
+      {ticks.map(tick => (
+        <text key={tick.value} x={scale(tick.value)} y={y + 16} textAnchor="middle">
+          {tick.label}
+        </text>
+      ))}
+      {label && (
+        <text
+          className="chart-axis-label"
+          x={(margin.left + width - margin.right) / 2}
+          y={height - 4}
+          textAnchor="middle"
+        >
+          {label}
+        </text>
+      )}
+    </g>
+  );
+};
+
+interface LegendProps {
+  labels: string[];
+  // Color per label; defaults to the series palette in order
+  colors?: string[];
+}
+
+// Color key rendered as HTML below the chart so it wraps on narrow cards
+export const Legend: FC<LegendProps> = ({ labels, colors }) => (
+  <div className="chart-legend">
+    {labels.map((label, i) => (
+      <span key={label}>
+        <span className="chart-swatch" style={{ background: colors?.[i] ?? seriesColor(i) }}></span>
+        {label}
+      </span>
+    ))}
+  </div>
+);
@@ -0,0 +1,81 @@
+import { FC } from 'react';
+import { Legend, XAxis, YAxis } from './ChartParts';
+import { ChartArea, linearScale, logScale, logTicks, niceTicks, Scale, seriesColor } from './scales';
+
+export interface LineSeries {
+  label: string;
+  points: { x: number; y: number }[];
+}
+
+interface LineChartProps {
+  series: LineSeries[];
+  formatX: (value: number) => string;
+  formatY: (value: number) => string;
+  xLabel?: string;
+  yLabel?: string;
+  // Logarithmic axes suit row-count sweeps spanning several orders of magnitude
+  logX?: boolean;
+  logY?: boolean;
+  height?: number;
+}
+
+// Build the scale and ticks for one axis, falling back to linear when log is impossible
+function axis(values: number[], log: boolean, range: [number, number]): { scale: Scale; ticks: number[] } {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  if (log && min > 0) {
+    const ticks = logTicks(min, max);
+    return { scale: logScale([ticks[0], ticks[ticks.length - 1]], range), ticks };
+  }
+
+  const ticks = niceTicks(Math.min(0, min), max);
+  return { scale: linearScale([ticks[0], ticks[ticks.length - 1]], range), ticks };
+}
+
+// Multi-series line chart with point markers
+const LineChart: FC<LineChartProps> = ({
+  series, formatX, formatY, xLabel, yLabel, logX = false, logY = false, height = 260
+}) => {
+  const area: ChartArea = { width: 640, height, margin: { top: 12, right: 16, bottom: 40, left: 72 } };
+  const { margin, width } = area;
+  const points = series.flatMap(s => s.points);
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  const x = axis(points.map(p => p.x), logX, [margin.left, width - margin.right]);
+  const y = axis(points.map(p => p.y), logY, [height - margin.bottom, margin.top]);
+
+  return (
+    <div className="chart">
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" role="img">
+        <YAxis area={area} scale={y.scale} ticks={y.ticks} format={formatY} label={yLabel} />
+        <XAxis
+          area={area}
+          scale={x.scale}
+          ticks={x.ticks.map(value => ({ value, label: formatX(value) }))}
+          label={xLabel}
+        />
+        {series.map((s, i) => (
+          <g key={s.label} stroke={seriesColor(i)} fill={seriesColor(i)}>
+            <polyline
+              fill="none"
+              strokeWidth={2}
+              points={s.points.map(p => `${x.scale(p.x)},${y.scale(p.y)}`).join(' ')}
+            />
+            {s.points.map(p => (
+              <circle key={p.x} cx={x.scale(p.x)} cy={y.scale(p.y)} r={3.5}>
+                <title>{`${s.label} · ${formatX(p.x)}: ${formatY(p.y)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      {series.length > 1 && <Legend labels={series.map(s => s.label)} />}
+    </div>
+  );
+};
+
+export default LineChart;
@@ -0,0 +1,55 @@
+import { FC } from 'react';
+import { Legend } from './ChartParts';
+import { seriesColor } from './scales';
+
+export interface StackedSegment {
+  label: string;
+  value: number;
+  // Index into the series palette, so a segment keeps its color when others are missing
+  colorIndex: number;
+}
+
+interface StackedBarProps {
+  segments: StackedSegment[];
+  formatValue: (value: number) => string;
+  height?: number;
+}
+
+// Single horizontal bar split into segments proportional to their values
+const StackedBar: FC<StackedBarProps> = ({ segments, formatValue, height = 28 }) => {
+  const width = 640;
+  const visible = segments.filter(segment => Number.isFinite(segment.value) && segment.value > 0);
+  const total = visible.reduce((sum, segment) => sum + segment.value, 0);
+  let x = 0;
+
+  return (
+    <div className="chart">
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" role="img">
+        {visible.map(segment => {
+          const segmentWidth = total > 0 ? (segment.value / total) * width : 0;
+          const segmentX = x;
+          x += segmentWidth;
+
+          return (
+            <rect
+              key={segment.label}
+              x={segmentX}
+              y={0}
+              width={segmentWidth}
+              height={height}
+              fill={seriesColor(segment.colorIndex)}
+            >
+              <title>{`${segment.label}: ${formatValue(segment.value)} (${((segment.value / total) * 100).toFixed(1)}%)`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <Legend
+        labels={visible.map(segment => `${segment.label} ${formatValue(segment.value)}`)}
+        colors={visible.map(segment => seriesColor(segment.colorIndex))}
+      />
+    </div>
+  );
+};
+
+export default StackedBar;
@@ -0,0 +1,83 @@
+/**
+ * Scale and tick helpers shared by the SVG charts
+ */
+
+export type Scale = (value: number) => number;
+
+// Inner chart area in SVG user units
+export interface ChartArea {
+  width: number;
+  height: number;
+  margin: { top: number; right: number; bottom: number; left: number };
+}
+
+// Colors assigned to series in order
+export const CHART_COLORS = ['#4a76a8', '#dd6b20', '#38a169', '#805ad5', '#d53f8c', '#319795', '#b7791f', '#e53e3e', '#718096'];
+
+/**
+ * Pick a color for the series at the given index
+ * @param index Series index
+ */
+export function seriesColor(index: number): string {
+  return CHART_COLORS[index % CHART_COLORS.length];
+}
+
+/**
+ * Create a linear scale mapping a domain onto a pixel range
+ * @param domain Minimum and maximum data values
+ * @param range Pixel positions for the domain bounds
+ */
+export function linearScale([d0, d1]: [number, number], [r0, r1]: [number, number]): Scale {
+  const span = d1 - d0 || 1;
+  return value => r0 + ((value - d0) / span) * (r1 - r0);
+}
+
+/**
+ * Create a base-10 logarithmic scale; the domain must be strictly positive
+ * @param domain Minimum and maximum data values
+ * @param range Pixel positions for the domain bounds
+ */
+export function logScale([d0, d1]: [number, number], [r0, r1]: [number, number]): Scale {
+  const linear = linearScale([Math.log10(d0), Math.log10(d1)], [r0, r1]);
+  return value => linear(Math.log10(value));
+}
+
+/**
+ * Evenly spaced "nice" tick values (multiples of 1, 2 or 5 × 10ⁿ) covering a range
+ * @param min Lowest data value
+ * @param max Highest data value
+ * @param count Approximate number of ticks
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (max <= min) {
+    return [min];
+  }
+
+  const rawStep = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rawStep)!;
+  const first = Math.floor(min / step);
+  const last = Math.ceil(max / step);
+  const ticks: number[] = [];
+
+  for (let i = first; i <= last; i++) {
+    ticks.push(Number((i * step).toPrecision(12)));
+  }
+
+  return ticks;
+}
+
+/**
+ * Powers of ten covering a strictly positive range
+ * @param min Lowest data value
+ * @param max Highest data value
+ */
+export function logTicks(min: number, max: number): number[] {
+  const ticks: number[] = [];
+
+  for (let exp = Math.floor(Math.log10(min)); exp <= Math.ceil(Math.log10(max)); exp++) {
+    ticks.push(Math.pow(10, exp));
+  }
+
+  return ticks;
+}
@@ -0,0 +1,60 @@
+/**
+ * Command-line benchmark runner that drives the engines' document builders in Node
+ *
+ * Build and run it with `npm run bench -- --rows 100,1k --iterations 5`.
+ */
+import { writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import { parseArgs } from 'node:util';
+import { engines } from '../engines/registry';
+import type { EnvironmentInfo } from '../utils/environment';
+import { createResultsFile } from '../utils/resultsFile';
+import { runSuite, toResultsContent } from '../utils/suite';
+import { hasFailedRuns, logComparison, parseSuiteFlags, SUITE_FLAGS, SUITE_USAGE } from './common';
+
+const USAGE = `Usage: npm run bench -- [options]
+
+Options:
+${SUITE_USAGE}
+
+Engines: ${engines.map(engine => engine.id).join(', ')}`;
+
+// Describe the machine in the shape the browser app records
+function collectNodeEnvironment(): EnvironmentInfo {
+  return {
+    userAgent: `Node.js ${process.version}`,
+    platform: `${process.platform} ${process.arch}`,
+    language: Intl.DateTimeFormat().resolvedOptions().locale,
+    hardwareConcurrency: os.availableParallelism(),
+    deviceMemory: Math.round(os.totalmem() / 1024 ** 3)
+  };
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({ options: SUITE_FLAGS });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const suite = {
+    ...parseSuiteFlags(values),
+    // Node has no workers that load the generators, so they run in this process
+    execution: 'main-thread' as const
+  };
+  const comparisons = await runSuite(suite, logComparison);
+
+  const file = createResultsFile(toResultsContent(comparisons), collectNodeEnvironment());
+  await writeFile(values.output, JSON.stringify(file, null, 2));
+  console.error(`Results written to ${values.output}`);
+
+  if (hasFailedRuns(comparisons)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
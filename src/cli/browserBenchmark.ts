@@ -0,0 +1,122 @@
+/**
+ * Headless-browser benchmark harness that runs a suite in the built app through Chromium
+ *
+ * The app is served by the Vite preview server and driven through its
+ * window.pdfBenchmark hook. Requests to any other origin are blocked, so the
+ * run is entirely offline. No browser is downloaded: pass the path of a local
+ * Chromium with --browser or CHROMIUM_PATH, or have Google Chrome installed.
+ *
+ * Build and run it with `npm run bench:browser -- --rows 100,1k`.
+ */
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { chromium } from 'playwright-core';
+import { preview } from 'vite';
+import type { ExecutionMode, StartMode } from '../utils/pdfService';
+import type { PdfTransport } from '../workers/protocol';
+import { hasFailedRuns, logComparison, parseSuiteFlags, SUITE_FLAGS, SUITE_USAGE } from './common';
+
+const USAGE = `Usage: npm run bench:browser -- [options]
+
+Options:
+${SUITE_USAGE}
+  --execution <mode>   worker or main-thread (default: worker)
+  --start-mode <mode>  cold or warm (default: cold)
+  --transport <type>   binary or base64 (default: binary)
+  --browser <path>     Chromium executable (default: $CHROMIUM_PATH, else installed Chrome)
+  --port <n>           Port of the preview server (default: 4173)
+  --allow-network      Let engines that need the network fetch their resources`;
+
+// Accept a flag only if it is one of the allowed values
+function parseChoice<T extends string>(value: string, flag: string, choices: readonly T[]): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(`--${flag} must be one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      ...SUITE_FLAGS,
+      execution: { type: 'string', default: 'worker' },
+      'start-mode': { type: 'string', default: 'cold' },
+      transport: { type: 'string', default: 'binary' },
+      browser: { type: 'string' },
+      port: { type: 'string', default: '4173' },
+      'allow-network': { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const suite = {
+    ...parseSuiteFlags(values),
+    execution: parseChoice<ExecutionMode>(values.execution, 'execution', ['worker', 'main-thread']),
+    startMode: parseChoice<StartMode>(values['start-mode'], 'start-mode', ['cold', 'warm']),
+    transport: parseChoice<PdfTransport>(values.transport, 'transport', ['binary', 'base64'])
+  };
+
+  // Serves the production build in dist, which must be built first
+  const server = await preview({ preview: { port: Number(values.port), strictPort: true, open: false } });
+  const executablePath = values.browser ?? process.env.CHROMIUM_PATH;
+
+  try {
+    const appUrl = server.resolvedUrls?.local[0];
+    if (!appUrl) {
+      throw new Error('Preview server did not report a local URL');
+    }
+
+    const browser = await chromium.launch(
+      executablePath ? { executablePath, headless: true } : { channel: 'chrome', headless: true }
+    );
+
+    try {
+      const page = await browser.newPage();
+      page.on('console', message => {
+        if (message.type() === 'error') {
+          console.error(`[browser] ${message.text()}`);
+        }
+      });
+      if (!values['allow-network']) {
+        const appOrigin = new URL(appUrl).origin;
+        await page.route('**/*', route => (
+          new URL(route.request().url()).origin === appOrigin ? route.continue() : route.abort('internetdisconnected')
+        ));
+      }
+
+      await page.goto(appUrl);
+      await page.waitForFunction(() => window.pdfBenchmark !== undefined);
+
+      // Offline runs default to the engines that work without the network
+      const availableEngines = await page.evaluate(() => window.pdfBenchmark!.engines);
+      suite.engineIds ??= availableEngines
+        .filter(engine => values['allow-network'] || !engine.requiresNetwork)
+        .map(engine => engine.id);
+
+      console.error(`Running ${suite.engineIds.join(', ')} in Chromium ${browser.version()}`);
+      const file = await page.evaluate(hookSuite => window.pdfBenchmark!.run(hookSuite), suite);
+      const comparisons = file.comparisons ?? (file.comparison ? [file.comparison] : []);
+      comparisons.forEach(logComparison);
+
+      await writeFile(values.output, JSON.stringify(file, null, 2));
+      console.error(`Results written to ${values.output}`);
+
+      if (hasFailedRuns(comparisons)) {
+        process.exitCode = 1;
+      }
+    } finally {
+      await browser.close();
+    }
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
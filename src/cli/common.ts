@@ -0,0 +1,123 @@
+/**
+ * Command-line flags and console reporting shared by the Node and headless-browser runners
+ */
+import { readFileSync } from 'node:fs';
+import { DatasetSchema, DEFAULT_SCHEMA, parseDatasetSchema } from '../generators/dataset';
+import { ComparisonResult, RUN_STATUS_LABELS } from '../utils/benchmarkRunner';
+import { formatTime } from '../utils/pdfService';
+import { parseRowCountList } from '../utils/rowCounts';
+import { BenchmarkSuite, DEFAULT_SUITE_SETTINGS } from '../utils/suite';
+
+// Row counts used when --rows is not given
+export const DEFAULT_ROWS = '10, 100, 1k';
+
+// Options for node:util parseArgs describing a suite and where its results go
+export const SUITE_FLAGS = {
+  rows: { type: 'string', default: DEFAULT_ROWS },
+  engines: { type: 'string' },
+  warmup: { type: 'string', default: String(DEFAULT_SUITE_SETTINGS.warmupRuns) },
+  iterations: { type: 'string', default: String(DEFAULT_SUITE_SETTINGS.measuredRuns) },
+  timeout: { type: 'string' },
+  schema: { type: 'string' },
+  seed: { type: 'string' },
+  output: { type: 'string', default: 'benchmark-results.json' },
+  help: { type: 'boolean', default: false }
+} as const;
+
+export const SUITE_USAGE = `  --rows <list>        Row counts to benchmark, e.g. "10, 100, 1k" (default: ${DEFAULT_ROWS})
+  --engines <list>     Comma-separated engine ids (default: every engine)
+  --warmup <n>         Warm-up runs per engine and row count (default: ${DEFAULT_SUITE_SETTINGS.warmupRuns})
+  --iterations <n>     Measured runs per engine and row count (default: ${DEFAULT_SUITE_SETTINGS.measuredRuns})
+  --timeout <seconds>  Limit for each generation (default: none)
+  --schema <file>      JSON dataset schema of the generated table (default: the built-in report)
+  --seed <n>           Fill the table with synthetic values from this seed (default: the schema's seed, if any)
+  --output <file>      JSON results file (default: benchmark-results.json)
+  --help               Show this message`;
+
+export interface SuiteFlagValues {
+  rows: string;
+  engines?: string;
+  warmup: string;
+  iterations: string;
+  timeout?: string;
+  schema?: string;
+  seed?: string;
+}
+
+/**
+ * Parse a flag that must be a whole number of at least min
+ * @param value Flag value as given
+ * @param flag Flag name, for the error message
+ * @param min Smallest accepted value
+ */
+export function parseCount(value: string, flag: string, min: number): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min) {
+    throw new Error(`--${flag} must be a whole number of at least ${min}, got "${value}"`);
+  }
+  return count;
+}
+
+// Read a dataset schema from the JSON file given with --schema
+function readSchemaFile(path: string): DatasetSchema {
+  try {
+    return parseDatasetSchema(JSON.parse(readFileSync(path, 'utf8')));
+  } catch (err) {
+    throw new Error(`--schema ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Build the dataset schema from --schema and --seed
+ * @param values Flag values as given
+ * @returns The schema, or undefined for the built-in report
+ */
+export function parseDatasetFlags(values: { schema?: string; seed?: string }): DatasetSchema | undefined {
+  const schema = values.schema ? readSchemaFile(values.schema) : undefined;
+  if (values.seed === undefined) {
+    return schema;
+  }
+
+  const seed = parseCount(values.seed, 'seed', 0);
+  if (seed >= 2 ** 32) {
+    throw new Error(`--seed must be below ${2 ** 32}, got "${values.seed}"`);
+  }
+  return { ...(schema ?? DEFAULT_SCHEMA), seed };
+}
+
+/**
+ * Build a suite from the parsed flags
+ * @param values Values returned by parseArgs for SUITE_FLAGS
+ */
+export function parseSuiteFlags(values: SuiteFlagValues): BenchmarkSuite {
+  return {
+    ...DEFAULT_SUITE_SETTINGS,
+    rowCounts: parseRowCountList(values.rows),
+    engineIds: values.engines?.split(',').map(id => id.trim()),
+    warmupRuns: parseCount(values.warmup, 'warmup', 0),
+    measuredRuns: parseCount(values.iterations, 'iterations', 1),
+    timeoutMs: values.timeout ? parseCount(values.timeout, 'timeout', 1) * 1000 : undefined,
+    schema: parseDatasetFlags(values)
+  };
+}
+
+/**
+ * Print the median total time of every engine in a comparison to stderr
+ * @param comparison Comparison at one row count
+ */
+export function logComparison(comparison: ComparisonResult): void {
+  console.error(`${comparison.config.rowCount.toLocaleString()} rows`);
+  for (const run of comparison.runs) {
+    const median = run.measurement?.summary.total.median;
+    const outcome = median !== undefined ? formatTime(median) : `${RUN_STATUS_LABELS[run.status]}: ${run.error}`;
+    console.error(`  ${run.engineId.padEnd(10)} ${outcome}`);
+  }
+}
+
+/**
+ * Whether any engine of any comparison did not complete, for the exit code
+ * @param comparisons Comparisons of a suite
+ */
+export function hasFailedRuns(comparisons: ComparisonResult[]): boolean {
+  return comparisons.some(comparison => comparison.runs.some(run => run.status !== 'completed'));
+}
@@ -0,0 +1,88 @@
+/**
+ * Command-line check that every engine's PDF contains exactly the data it was given
+ *
+ * Each engine generates its report in Node at every row count; the PDF is then
+ * parsed and every row, the column headers on each page and the page count are
+ * compared with what was requested. The page count is only known for the
+ * built-in report, so it is not checked with --schema or --seed. Exits with
+ * status 1 if any check fails.
+ *
+ * Build and run it with `npm run verify -- --rows 10,100,1k`.
+ */
+import { parseArgs } from 'node:util';
+import { engines } from '../engines/registry';
+import { VERIFICATION_ISSUE_LABELS, verifyEngine } from '../utils/outputVerification';
+import { parseRowCountList } from '../utils/rowCounts';
+import { resolveEngines } from '../utils/suite';
+import { DEFAULT_ROWS, parseDatasetFlags } from './common';
+
+const USAGE = `Usage: npm run verify -- [options]
+
+Options:
+  --rows <list>     Row counts to verify, e.g. "10, 100, 1k" (default: ${DEFAULT_ROWS})
+  --engines <list>  Comma-separated engine ids (default: every engine)
+  --schema <file>   JSON dataset schema of the generated table (default: the built-in report)
+  --seed <n>        Fill the table with synthetic values from this seed (default: the schema's seed, if any)
+  --help            Show this message
+
+Engines: ${engines.map(engine => engine.id).join(', ')}`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      rows: { type: 'string', default: DEFAULT_ROWS },
+      engines: { type: 'string' },
+      schema: { type: 'string' },
+      seed: { type: 'string' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const rowCounts = parseRowCountList(values.rows);
+  const selectedEngines = resolveEngines(values.engines?.split(',').map(id => id.trim()));
+  const schema = parseDatasetFlags(values);
+  let failures = 0;
+
+  for (const engine of selectedEngines) {
+    console.error(engine.label);
+
+    for (const rowCount of rowCounts) {
+      const label = `  ${rowCount.toLocaleString()} rows`.padEnd(16);
+
+      try {
+        // Node has no workers that load the generators, so they run in this process
+        const result = await verifyEngine(engine, rowCount, undefined, { execution: 'main-thread', schema });
+        const pages = `${result.pageCount} ${result.pageCount === 1 ? 'page' : 'pages'}`;
+
+        if (result.issues.length === 0) {
+          console.error(`${label} ok (${pages})`);
+          continue;
+        }
+
+        failures++;
+        console.error(`${label} FAILED (${pages})`);
+        for (const issue of result.issues) {
+          console.error(`    ${VERIFICATION_ISSUE_LABELS[issue.kind]}: ${issue.message}`);
+        }
+      } catch (err) {
+        failures++;
+        console.error(`${label} FAILED: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} ${failures === 1 ? 'check' : 'checks'} failed`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
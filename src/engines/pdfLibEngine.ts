@@ -0,0 +1,22 @@
+import { countPages, PdfEngine } from './types';
+
+// pdf-lib draws every cell at absolute coordinates with no layout engine
+export const pdfLibEngine: PdfEngine = {
+  id: 'pdflib',
+  label: 'PDF-Lib',
+  createWorker: () => new Worker(
+    new URL('../workers/pdfLibWorker.ts', import.meta.url),
+    { type: 'module' }
+  ),
+  loadGenerator: () => import('../generators/pdfLibGenerator').then(module => module.buildPdf),
+  capabilities: {
+    workerPoolSize: 1,
+    requiresNetwork: false
+  },
+  options: [],
+  // Rows have a fixed height: 25 fit below the title, 28 on later pages
+  expectedPages: (rowCount) => {
+    const pages = countPages(rowCount, 25, 28);
+    return { min: pages, max: pages };
+  }
+};
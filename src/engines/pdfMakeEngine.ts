@@ -0,0 +1,24 @@
+import { countPages, PdfEngine } from './types';
+
+// pdfmake builds a declarative document definition and lays it out itself
+export const pdfMakeEngine: PdfEngine = {
+  id: 'pdfmake',
+  label: 'PdfMake',
+  createWorker: () => new Worker(
+    new URL('../workers/pdfMakeWorker.ts', import.meta.url),
+    { type: 'module' }
+  ),
+  loadGenerator: () => import('../generators/pdfMakeGenerator').then(module => module.buildPdf),
+  capabilities: {
+    workerPoolSize: 1,
+    requiresNetwork: false
+  },
+  options: [],
+  // The bundled Roboto sets 12pt text 14.06pt high, so with 2pt cell padding and 1pt rules a row
+  // takes 19.06pt. An A4 page inside the default 40pt margins is 761.89pt: 39 rows, the header
+  // row and 38 data rows, fit on later pages, and the title lines' 86.56pt leave 34 on the first
+  expectedPages: (rowCount) => {
+    const pages = countPages(rowCount, 34, 38);
+    return { min: pages, max: pages };
+  }
+};
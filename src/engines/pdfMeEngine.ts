@@ -0,0 +1,25 @@
+import { countPages, PdfEngine } from './types';
+
+// pdfme fills a template with one text schema per cell
+export const pdfMeEngine: PdfEngine = {
+  id: 'pdfme',
+  label: 'PDFme',
+  createWorker: () => new Worker(
+    new URL('../workers/pdfMeWorker.ts', import.meta.url),
+    { type: 'module' }
+  ),
+  loadGenerator: () => import('../generators/pdfMeGenerator').then(module => module.buildPdf),
+  capabilities: {
+    workerPoolSize: 2,
+    requiresNetwork: false
+  },
+  options: [
+    { key: 'rowsPerPage', label: 'Rows per Page', type: 'number', defaultValue: 30, min: 1, max: 34 }
+  ],
+  // Every page of the template holds a fixed number of rows
+  expectedPages: (rowCount, options) => {
+    const rowsPerPage = Number(options.rowsPerPage ?? 30);
+    const pages = countPages(rowCount, rowsPerPage, rowsPerPage);
+    return { min: pages, max: pages };
+  }
+};
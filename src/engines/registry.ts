@@ -0,0 +1,25 @@
+/**
+ * Registry of every PDF engine available in the benchmark
+ */
+import type { PdfEngine } from './types';
+import { pdfMakeEngine } from './pdfMakeEngine';
+import { pdfLibEngine } from './pdfLibEngine';
+import { typstEngine } from './typstEngine';
+import { pdfMeEngine } from './pdfMeEngine';
+
+// Engines in the order they are rendered
+export const engines: PdfEngine[] = [
+  pdfMakeEngine,
+  pdfLibEngine,
+  typstEngine,
+  pdfMeEngine
+];
+
+/**
+ * Look up a registered engine by its id
+ * @param id Engine id
+ * @returns The engine, or undefined if no engine has that id
+ */
+export function getEngine(id: string): PdfEngine | undefined {
+  return engines.find(engine => engine.id === id);
+}
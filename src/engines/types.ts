@@ -0,0 +1,90 @@
+/**
+ * Shared contract every PDF engine adapter implements
+ */
+import type { PdfGenerator, WorkerPhaseTimings } from '../workers/protocol';
+
+// Values for an engine's extra options, keyed by option key
+export type EngineOptionValues = Record<string, number | boolean | string>;
+
+// Describes a single engine-specific option so the UI can render an input for it
+export type EngineOption =
+  | { key: string; label: string; type: 'number'; defaultValue: number; min?: number; max?: number }
+  | { key: string; label: string; type: 'boolean'; defaultValue: boolean }
+  | { key: string; label: string; type: 'select'; defaultValue: string; choices: string[] };
+
+export interface EngineCapabilities {
+  // Number of idle workers kept alive between warm-start runs
+  workerPoolSize: number;
+  // Whether initialization fetches remote assets such as WASM modules
+  requiresNetwork: boolean;
+}
+
+// Inclusive range of page counts a generated report may have
+export interface PageRange {
+  min: number;
+  max: number;
+}
+
+export interface PdfEngine {
+  // Stable identifier, also used in file names
+  id: string;
+  // Human-readable name shown in the UI
+  label: string;
+  // Spawns the engine's worker; the `new URL(..., import.meta.url)` must stay literal for Vite
+  createWorker: () => Worker;
+  // Loads the same generator in the current thread, for main-thread runs
+  loadGenerator: () => Promise<PdfGenerator>;
+  capabilities: EngineCapabilities;
+  options: EngineOption[];
+  // Pages the report should span for a row count, checked when its output is verified
+  expectedPages: (rowCount: number, options: EngineOptionValues) => PageRange;
+}
+
+export interface PdfGenerationMetrics {
+  dataGenerationTime: number;
+  totalTime: number;
+  workerStartTime?: number;
+  workerEndTime?: number;
+  totalProcessTime?: number;
+  // Durations of the named steps the worker timed
+  phases?: WorkerPhaseTimings;
+  // Whether the worker was started for this generation rather than reused
+  coldStart?: boolean;
+  // Time from the worker posting its response until the main thread received it
+  transferTime?: number;
+  // Time spent turning the received data into a PDF Blob on the main thread
+  decodingTime?: number;
+  // Time the main thread was blocked by long tasks during the generation
+  mainThreadBlockingTime?: number;
+}
+
+export interface PdfGenerationResult {
+  pdf: Blob;
+  metrics: PdfGenerationMetrics;
+}
+
+/**
+ * Build the default option values declared by an engine's options schema
+ * @param engine Engine whose options should be resolved
+ * @returns Option values keyed by option key
+ */
+export function getDefaultOptions(engine: PdfEngine): EngineOptionValues {
+  const values: EngineOptionValues = {};
+
+  for (const option of engine.options) {
+    values[option.key] = option.defaultValue;
+  }
+
+  return values;
+}
+
+/**
+ * Count the pages a report spans when its pages hold a fixed number of rows
+ * @param rowCount Number of data rows in the report
+ * @param firstPageRows Rows that fit on the first page, below the title
+ * @param laterPageRows Rows that fit on every later page
+ * @returns Number of pages, at least one
+ */
+export function countPages(rowCount: number, firstPageRows: number, laterPageRows: number): number {
+  return rowCount <= firstPageRows ? 1 : 1 + Math.ceil((rowCount - firstPageRows) / laterPageRows);
+}
@@ -0,0 +1,22 @@
+import { countPages, PdfEngine } from './types';
+
+// Typst compiles generated markup with the WASM compiler fetched from the CDN
+export const typstEngine: PdfEngine = {
+  id: 'typst',
+  label: 'Typst',
+  createWorker: () => new Worker(
+    new URL('../workers/typstWorker.ts', import.meta.url),
+    { type: 'module' }
+  ),
+  loadGenerator: () => import('../generators/typstGenerator').then(module => module.buildPdf),
+  capabilities: {
+    workerPoolSize: 1,
+    requiresNetwork: true
+  },
+  options: [],
+  // Row heights depend on the fonts the compiler resolves, so the bounds are loose
+  expectedPages: (rowCount) => ({
+    min: countPages(rowCount, 35, 35),
+    max: countPages(rowCount, 15, 20)
+  })
+};
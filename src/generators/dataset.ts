@@ -0,0 +1,339 @@
+/**
+ * Configurable table schema and the deterministic rows every generator renders from it
+ */
+import { createRandom, RandomSource } from '../utils/random';
+
+export type ColumnType = 'text' | 'integer' | 'decimal' | 'currency' | 'date' | 'boolean' | 'paragraph';
+
+export const COLUMN_TYPES: ColumnType[] = ['text', 'integer', 'decimal', 'currency', 'date', 'boolean', 'paragraph'];
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  text: 'Text',
+  integer: 'Integer',
+  decimal: 'Decimal',
+  currency: 'Currency',
+  date: 'Date',
+  boolean: 'Boolean',
+  paragraph: 'Long paragraph'
+};
+
+export type ColumnAlignment = 'left' | 'center' | 'right';
+
+export interface ColumnDefinition {
+  header: string;
+  type: ColumnType;
+  // Relative width; the columns share the table width in proportion to it
+  width: number;
+  // Text columns: cell text with {n} replaced by the row number; synthetic values ignore it
+  template?: string;
+  // Text columns: values used in turn, instead of a template, or picked at random for synthetic values
+  choices?: string[];
+  // Numeric columns: range the values stay within
+  min?: number;
+  max?: number;
+  // Synthetic values only: share of cells left empty, from 0 to 1
+  nullRate?: number;
+}
+
+export interface DatasetSchema {
+  columns: ColumnDefinition[];
+  // Seed of realistic synthetic values; without one every cell follows a fixed sequence
+  seed?: number;
+}
+
+// A row's cell texts, in column order
+export type DataRow = string[];
+
+// The report the benchmark has always generated
+export const DEFAULT_SCHEMA: DatasetSchema = {
+  columns: [
+    { header: 'Name', type: 'text', width: 25, template: 'Person {n}' },
+    { header: 'Age', type: 'integer', width: 10, min: 20, max: 59 },
+    { header: 'Email', type: 'text', width: 40, template: 'person{n}@example.com' },
+    { header: 'Occupation', type: 'text', width: 25, choices: ['Engineer', 'Designer', 'Manager', 'Developer', 'Analyst'] }
+  ]
+};
+
+export const MAX_COLUMNS = 20;
+
+const PARAGRAPH_WORDS = (
+  'lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore et dolore ' +
+  'magna aliqua ut enim ad minim veniam quis nostrud exercitation ullamco laboris nisi ut aliquip ex ea commodo ' +
+  'consequat duis aute irure dolor in reprehenderit in voluptate velit esse cillum dolore eu fugiat nulla pariatur'
+).split(' ');
+
+// Dates count up one day per row from here
+const FIRST_DATE = Date.UTC(2024, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const currencyFormat = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+// Spread values over a column's range without a visible pattern in consecutive rows
+function decimalValue(column: ColumnDefinition, index: number): number {
+  const min = column.min ?? 0;
+  const max = column.max ?? 10000;
+  const steps = Math.round((max - min) * 100) + 1;
+  return min + ((index * 7919) % steps) / 100;
+}
+
+// Between 20 and 79 words, starting at a different word on every row
+function paragraph(index: number): string {
+  const length = 20 + (index * 13) % 60;
+  const words = Array.from({ length }, (_, i) => PARAGRAPH_WORDS[(index + i) % PARAGRAPH_WORDS.length]);
+  const text = words.join(' ');
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+}
+
+// Text of one cell; index is the zero-based row index
+function cellText(column: ColumnDefinition, index: number): string {
+  const rowNumber = index + 1;
+
+  switch (column.type) {
+    case 'text':
+      if (column.choices?.length) {
+        return column.choices[index % column.choices.length];
+      }
+      return (column.template ?? `${column.header} {n}`).replace(/\{n\}/g, String(rowNumber));
+    case 'integer': {
+      const min = column.min ?? 0;
+      const max = column.max ?? 999;
+      return String(min + (index % (max - min + 1)));
+    }
+    case 'decimal':
+      return decimalValue(column, index).toFixed(2);
+    case 'currency':
+      return currencyFormat.format(decimalValue(column, index));
+    case 'date':
+      return new Date(FIRST_DATE + index * DAY_MS).toISOString().slice(0, 10);
+    case 'boolean':
+      return index % 2 === 0 ? 'Yes' : 'No';
+    case 'paragraph':
+      return paragraph(index);
+  }
+}
+
+// Names from several scripts, all covered by the fonts the engines bundle
+const FIRST_NAMES = [
+  'Amélie', 'José', 'Zoë', 'Søren', 'Łukasz', 'Ömer', 'Jürgen', 'Siobhán', 'François', 'Björk', 'Mikołaj', 'Wei',
+  'Aroha', 'Kwame', 'Ingrid', 'Mohammed', 'Αλέξανδρος', 'Ελένη', 'Дмитрий', 'Ольга', 'Ana', 'Đorđe', 'Tomáš', 'Núria'
+];
+const LAST_NAMES = [
+  'Müller', 'García', 'Nowak', 'Øvergaard', 'Dvořák', 'Papadopoulos', 'Παπαδοπούλου', 'Иванова', 'Šimić', 'Łęcka',
+  'van der Berg', "O'Brien", 'Nakamura', 'Okonkwo', 'Żółkiewski', 'Ålund', 'Jiménez', 'Smith', 'Nguyen', 'Kowalczyk'
+];
+
+const HEX_DIGITS = '0123456789abcdef';
+
+// Earliest synthetic date and the span they are spread over: 1950 to the end of 2030
+const SYNTHETIC_FIRST_DATE = Date.UTC(1950, 0, 1);
+const SYNTHETIC_DATE_SPAN_DAYS = 29585;
+
+// Whole number from min to max inclusive
+function randomInt(random: RandomSource, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(random: RandomSource, values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+// Standard normal value (Box-Muller)
+function randomNormal(random: RandomSource): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function fullName(random: RandomSource): string {
+  const name = `${pick(random, FIRST_NAMES)} ${pick(random, LAST_NAMES)}`;
+  // Some people have two family names
+  return random() < 0.15 ? `${name}-${pick(random, LAST_NAMES)}` : name;
+}
+
+// A token with no break opportunity, which engines must split or let overflow
+function longToken(random: RandomSource): string {
+  const words = (count: number) => Array.from({ length: count }, () => pick(random, PARAGRAPH_WORDS));
+
+  switch (randomInt(random, 0, 2)) {
+    case 0:
+      return Array.from({ length: randomInt(random, 24, 64) }, () => HEX_DIGITS[randomInt(random, 0, 15)]).join('');
+    case 1:
+      return `https://example.com/${words(randomInt(random, 3, 8)).join('/')}?id=${randomInt(random, 1, 999999)}`;
+    default:
+      return `${words(randomInt(random, 2, 5)).join('.')}@department.example.com`;
+  }
+}
+
+function randomWords(random: RandomSource, count: number): string {
+  return Array.from({ length: count }, () => {
+    const roll = random();
+    return roll < 0.03 ? longToken(random) : roll < 0.08 ? pick(random, LAST_NAMES) : pick(random, PARAGRAPH_WORDS);
+  }).join(' ');
+}
+
+// Mostly names, with short phrases and the occasional unbreakable token
+function syntheticText(random: RandomSource): string {
+  const roll = random();
+  if (roll < 0.1) {
+    return longToken(random);
+  }
+  if (roll < 0.7) {
+    return fullName(random);
+  }
+  return randomWords(random, randomInt(random, 1, 8));
+}
+
+// Realistic text of one cell; numbers follow distributions that give them varying widths
+function syntheticCellText(column: ColumnDefinition, random: RandomSource): string {
+  if (column.nullRate && random() < column.nullRate) {
+    return '';
+  }
+
+  switch (column.type) {
+    case 'text':
+      return column.choices?.length ? pick(random, column.choices) : syntheticText(random);
+    case 'integer':
+      // Uniform over the range
+      return String(randomInt(random, column.min ?? 0, column.max ?? 999));
+    case 'decimal': {
+      // Normal around the middle of the range, clamped to it
+      const min = column.min ?? 0;
+      const max = column.max ?? 10000;
+      const value = (min + max) / 2 + randomNormal(random) * (max - min) / 6;
+      return Math.min(max, Math.max(min, value)).toFixed(2);
+    }
+    case 'currency': {
+      // Log-uniform, so small amounts are as common as large ones of every magnitude
+      const min = Math.max(column.min ?? 1, 0.01);
+      const max = Math.max(column.max ?? 10000, min);
+      return currencyFormat.format(Math.exp(Math.log(min) + random() * (Math.log(max) - Math.log(min))));
+    }
+    case 'date':
+      return new Date(SYNTHETIC_FIRST_DATE + randomInt(random, 0, SYNTHETIC_DATE_SPAN_DAYS) * DAY_MS).toISOString().slice(0, 10);
+    case 'boolean':
+      return random() < 0.5 ? 'Yes' : 'No';
+    case 'paragraph': {
+      const text = randomWords(random, randomInt(random, 5, 150));
+      return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+    }
+  }
+}
+
+/**
+ * Generate deterministic rows for a schema
+ *
+ * With a seed the cells are realistic synthetic values drawn in row order, so
+ * the same seed always yields the same rows and a shorter table is a prefix
+ * of a longer one.
+ * @param schema Columns of the table and the optional seed
+ * @param rowCount Number of rows to generate
+ */
+export function generateRows(schema: DatasetSchema, rowCount: number): DataRow[] {
+  // Pre-allocate array for better performance
+  const rows = new Array<DataRow>(rowCount);
+  const random = schema.seed !== undefined ? createRandom(schema.seed) : null;
+
+  for (let i = 0; i < rowCount; i++) {
+    rows[i] = schema.columns.map(column => (random ? syntheticCellText(column, random) : cellText(column, i)));
+  }
+
+  return rows;
+}
+
+/**
+ * Header text of every column
+ * @param schema Columns of the table
+ */
+export function columnHeaders(schema: DatasetSchema): string[] {
+  return schema.columns.map(column => column.header);
+}
+
+/**
+ * Share of the table width each column takes
+ * @param schema Columns of the table
+ * @returns Fractions in column order, adding up to 1
+ */
+export function columnFractions(schema: DatasetSchema): number[] {
+  const total = schema.columns.reduce((sum, column) => sum + column.width, 0);
+  return schema.columns.map(column => column.width / total);
+}
+
+/**
+ * How a column's cells are aligned: numbers to the right, yes/no centred, text to the left
+ * @param type Column type
+ */
+export function columnAlignment(type: ColumnType): ColumnAlignment {
+  switch (type) {
+    case 'integer':
+    case 'decimal':
+    case 'currency':
+      return 'right';
+    case 'boolean':
+      return 'center';
+    default:
+      return 'left';
+  }
+}
+
+/**
+ * Create a column for the schema editor
+ * @param type Column type
+ * @param position Zero-based position of the column, used in its default header
+ */
+export function createColumn(type: ColumnType, position: number): ColumnDefinition {
+  return {
+    header: `${COLUMN_TYPE_LABELS[type]} ${position + 1}`,
+    type,
+    width: type === 'paragraph' ? 40 : type === 'boolean' ? 10 : 20
+  };
+}
+
+/**
+ * Whether two schemas describe the same table
+ * @param a First schema
+ * @param b Second schema
+ */
+export function sameSchema(a: DatasetSchema, b: DatasetSchema): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Summarize a schema as its column headers and types
+ * @param schema Columns of the table
+ */
+export function describeSchema(schema: DatasetSchema): string {
+  return schema.columns.map(column => `${column.header} (${column.type})`).join(', ');
+}
+
+/**
+ * Validate a schema read from a file or another untrusted source
+ * @param value Parsed JSON
+ * @returns The schema
+ */
+export function parseDatasetSchema(value: unknown): DatasetSchema {
+  const columns = (value as Partial<DatasetSchema> | null)?.columns;
+
+  if (!Array.isArray(columns) || columns.length === 0 || columns.length > MAX_COLUMNS) {
+    throw new Error(`A dataset schema needs between 1 and ${MAX_COLUMNS} columns`);
+  }
+
+  columns.forEach((column: Partial<ColumnDefinition>, i) => {
+    if (typeof column?.header !== 'string') {
+      throw new Error(`Column ${i + 1} has no header`);
+    }
+    if (!COLUMN_TYPES.includes(column.type as ColumnType)) {
+      throw new Error(`Column "${column.header}" has unknown type "${column.type}"; use one of ${COLUMN_TYPES.join(', ')}`);
+    }
+    if (typeof column.width !== 'number' || !(column.width > 0)) {
+      throw new Error(`Column "${column.header}" needs a positive width`);
+    }
+    if (column.nullRate !== undefined && !(column.nullRate >= 0 && column.nullRate <= 1)) {
+      throw new Error(`Column "${column.header}" needs a nullRate from 0 to 1`);
+    }
+  });
+
+  const { seed } = value as DatasetSchema;
+  if (seed !== undefined && !(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32)) {
+    throw new Error('The seed must be a whole number from 0 to 4294967295');
+  }
+
+  return seed !== undefined ? { columns, seed } : { columns };
+}
@@ -0,0 +1,247 @@
+// Import pdf-lib
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, PDFPage, rgb } from 'pdf-lib';
+import pdfFonts from 'pdfmake/build/vfs_fonts';
+import type { PdfGenerator, PhaseTimer } from '../workers/protocol';
+import { ColumnAlignment, columnAlignment, columnFractions, DatasetSchema, generateRows } from './dataset';
+
+// Vertical distance between wrapped lines of a cell
+const LINE_HEIGHT = 12;
+const HEADER_LINE_HEIGHT = 14;
+
+// Space between a cell's text and the column edges
+const CELL_PADDING = 5;
+
+// A4 in points
+const PAGE_SIZE: [number, number] = [595.28, 841.89];
+
+// pdf-lib's standard fonts only encode WinAnsi, so text is set in Roboto instead: the font pdfmake
+// and pdfme render with, which also covers the Greek and Cyrillic names the dataset generates
+let robotoFonts: { regular: Uint8Array; bold: Uint8Array } | null = null;
+
+// Decode the fonts from pdfmake's bundle once per worker
+function loadRoboto(): { regular: Uint8Array; bold: Uint8Array } {
+  const decode = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  robotoFonts ??= { regular: decode(pdfFonts['Roboto-Regular.ttf']), bold: decode(pdfFonts['Roboto-Medium.ttf']) };
+  return robotoFonts;
+}
+
+// Break text into lines no wider than the given width; words that are too long on their own are split
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) {
+      lines.push(line);
+    }
+    line = '';
+    for (const char of word) {
+      if (line && font.widthOfTextAtSize(line + char, size) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+  lines.push(line);
+
+  return lines;
+}
+
+// Draw the lines of one cell, aligned within its column
+function drawCell(
+  page: PDFPage,
+  lines: string[],
+  x: number,
+  width: number,
+  top: number,
+  lineHeight: number,
+  alignment: ColumnAlignment,
+  font: PDFFont,
+  size: number
+) {
+  lines.forEach((line, i) => {
+    const textWidth = font.widthOfTextAtSize(line, size);
+    const offset = alignment === 'right'
+      ? width - CELL_PADDING - textWidth
+      : alignment === 'center' ? (width - textWidth) / 2 : CELL_PADDING;
+
+    page.drawText(line, {
+      x: x + offset,
+      y: top - i * lineHeight,
+      size,
+      font,
+      color: rgb(0, 0, 0)
+    });
+  });
+}
+
+// Where the layout put a data row
+interface RowLayout {
+  // Wrapped lines of every cell
+  cellLines: string[][];
+  height: number;
+  // Whether the row starts a new page
+  newPage: boolean;
+}
+
+// Function to create PDF document
+async function createPdf(rowCount: number, schema: DatasetSchema, timer: PhaseTimer): Promise<Uint8Array> {
+  // Generate data
+  const data = timer.time('dataGeneration', () => generateRows(schema, rowCount));
+  
+  // Create a new PDF document
+  const pdfDoc = await PDFDocument.create();
+  
+  // Embed only the glyphs the report uses
+  const stopFonts = timer.start('fonts');
+  const roboto = loadRoboto();
+  pdfDoc.registerFontkit(fontkit);
+  const font = await pdfDoc.embedFont(roboto.regular, { subset: true });
+  const boldFont = await pdfDoc.embedFont(roboto.bold, { subset: true });
+  stopFonts();
+  
+  // Set some properties for our table
+  const [pageWidth, pageHeight] = PAGE_SIZE;
+  const margin = 50;
+  const rowHeight = 25;
+  const tableWidth = pageWidth - margin * 2;
+  const tableTop = pageHeight - margin - 80;
+  
+  // Column widths
+  const colWidths = columnFractions(schema).map(fraction => tableWidth * fraction);
+  const alignments = schema.columns.map(column => columnAlignment(column.type));
+  
+  // Wrapping every cell and breaking pages is the layout; drawing then places what it decided
+  const stopLayout = timer.start('layout');
+  
+  // Header labels wrap like cells, so the header grows with its longest label
+  const headerLines = schema.columns.map((column, i) => (
+    wrapText(column.header, boldFont, 12, colWidths[i] - CELL_PADDING * 2)
+  ));
+  const headerHeight = 30 + (Math.max(...headerLines.map(lines => lines.length)) - 1) * HEADER_LINE_HEIGHT;
+  
+  const rows: RowLayout[] = [];
+  let layoutY = tableTop - headerHeight;
+  let rowsOnPage = 0;
+  
+  for (const row of data) {
+    const cellLines = row.map((text, i) => wrapText(text, font, 10, colWidths[i] - CELL_PADDING * 2));
+    const height = rowHeight + (Math.max(...cellLines.map(lines => lines.length)) - 1) * LINE_HEIGHT;
+    
+    // Start a new page when the row does not fit; a row taller than a whole page is drawn anyway
+    const newPage = rowsOnPage > 0 && layoutY - height < margin;
+    if (newPage) {
+      layoutY = pageHeight - margin - headerHeight;
+      rowsOnPage = 0;
+    }
+    
+    rows.push({ cellLines, height, newPage });
+    layoutY -= height;
+    rowsOnPage++;
+  }
+  
+  stopLayout();
+  
+  const stopBuild = timer.start('documentBuild');
+  
+  // Add a page
+  let page = pdfDoc.addPage(PAGE_SIZE);
+  
+  // Draw the table header at the given height of a page
+  const drawHeader = (target: PDFPage, top: number) => {
+    // Draw header background
+    target.drawRectangle({
+      x: margin,
+      y: top - headerHeight,
+      width: tableWidth,
+      height: headerHeight,
+      color: rgb(0.9, 0.9, 0.9)
+    });
+    
+    // Draw header text
+    let currentX = margin;
+    for (let i = 0; i < headerLines.length; i++) {
+      drawCell(target, headerLines[i], currentX, colWidths[i], top - 20, HEADER_LINE_HEIGHT, 'left', boldFont, 12);
+      currentX += colWidths[i];
+    }
+  };
+  
+  // Draw title
+  page.drawText('Sample PDF Report', {
+    x: margin,
+    y: pageHeight - margin,
+    size: 18,
+    font: boldFont,
+    color: rgb(0, 0, 0)
+  });
+  
+  // Draw subtitle
+  page.drawText(`Generated with ${rowCount} rows of data`, {
+    x: margin,
+    y: pageHeight - margin - 25,
+    size: 14,
+    font: font,
+    color: rgb(0, 0, 0)
+  });
+  
+  // Draw description
+  page.drawText('This PDF was generated on the client-side using Web Workers and pdf-lib', {
+    x: margin,
+    y: pageHeight - margin - 50,
+    size: 10,
+    font: font,
+    color: rgb(0, 0, 0)
+  });
+  
+  // Draw table header
+  drawHeader(page, tableTop);
+  let currentY = tableTop - headerHeight;
+  
+  // Process data rows
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    const { cellLines, height, newPage } = rows[rowIndex];
+    
+    if (newPage) {
+      page = pdfDoc.addPage(PAGE_SIZE);
+      currentY = pageHeight - margin;
+      drawHeader(page, currentY);
+      currentY -= headerHeight;
+    }
+    
+    // Draw alternating row background
+    if (rowIndex % 2 === 1) {
+      page.drawRectangle({
+        x: margin,
+        y: currentY - height,
+        width: tableWidth,
+        height,
+        color: rgb(0.95, 0.95, 0.95)
+      });
+    }
+    
+    // Draw row data
+    let currentX = margin;
+    for (let i = 0; i < cellLines.length; i++) {
+      drawCell(page, cellLines[i], currentX, colWidths[i], currentY - 15, LINE_HEIGHT, alignments[i], font, 10);
+      currentX += colWidths[i];
+    }
+    
+    currentY -= height;
+  }
+  
+  stopBuild();
+  
+  // Serialize the PDFDocument to bytes
+  return timer.timeAsync('serialization', () => pdfDoc.save());
+}
+
+// Build the report for a generation request; used by the worker and by main-thread runs
+export const buildPdf: PdfGenerator = ({ rowCount, schema }, timer) => createPdf(rowCount, schema, timer);
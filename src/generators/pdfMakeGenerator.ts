@@ -0,0 +1,153 @@
+// Import pdfmake and its interfaces
+import pdfMake from 'pdfmake/build/pdfmake';
+import pdfFonts from 'pdfmake/build/vfs_fonts';
+import type { Content, TDocumentDefinitions } from 'pdfmake/interfaces';
+import type { PdfGenerator, PhaseTimer } from '../workers/protocol';
+import { ColumnAlignment, columnAlignment, columnFractions, DatasetSchema, generateRows } from './dataset';
+
+// Configure pdfMake with the default fonts
+pdfMake.vfs = pdfFonts;
+
+// A4 height less pdfmake's default 40 pt margins fits 54 lines of its default 12 pt Roboto,
+// so a row can only outgrow a page when one of its cells has at least that many characters
+const MAX_LINES_PER_PAGE = 54;
+
+// A data cell of the table
+interface BodyCell {
+  text: string;
+  alignment: ColumnAlignment;
+}
+
+// Find the rows too tall for a page, which pdfmake would cut short if it kept them whole
+function findTallRows(headerRow: () => Content[], body: BodyCell[][], widths: string[]): Set<number> {
+  const candidates = body
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => row.some(cell => cell.text.length >= MAX_LINES_PER_PAGE));
+  const tallRows = new Set<number>();
+  if (candidates.length === 0) {
+    return tallRows;
+  }
+  
+  // Lay every candidate out under the header at the top of a page of its own, letting it break; the
+  // headline level, which pdfmake hands to pageBreakBefore, carries the row index of each cell
+  const measured = pdfMake.createPdf({
+    content: candidates.map(({ row, index }, i) => ({
+      table: { headerRows: 1, widths, body: [headerRow(), row.map(cell => ({ ...cell, headlineLevel: index }))] },
+      pageBreak: i === 0 ? undefined : 'before'
+    })),
+    // A cell on more than one page belongs to a row no page can hold
+    pageBreakBefore: node => {
+      if (node.headlineLevel !== undefined && node.pageNumbers.length > 1) {
+        tallRows.add(node.headlineLevel);
+      }
+      return false;
+    }
+  }) as unknown as SteppedPdf;
+  measured._createDoc({});
+  
+  return tallRows;
+}
+
+// Function to create PDF document definition - optimized
+function createPdfDefinition(rowCount: number, schema: DatasetSchema, timer: PhaseTimer): TDocumentDefinitions {
+  const data = timer.time('dataGeneration', () => generateRows(schema, rowCount));
+  
+  const stopBuild = timer.start('documentBuild');
+  
+  // Every table needs a header row of its own, as pdfmake writes its layout into the nodes
+  const headerRow = () => schema.columns.map(column => ({ text: column.header, bold: true, fillColor: '#eeeeee' }));
+  const alignments = schema.columns.map(column => columnAlignment(column.type));
+  const widths = columnFractions(schema).map(fraction => `${fraction * 100}%`);
+  
+  // Pre-allocate the body array with exact size for better performance
+  const body: BodyCell[][] = new Array(data.length);
+  
+  // Add data rows efficiently
+  for (let i = 0; i < data.length; i++) {
+    body[i] = data[i].map((text, col) => ({ text, alignment: alignments[col] }));
+  }
+  
+  stopBuild();
+  
+  const tallRows = timer.time('layout', () => findTallRows(headerRow, body, widths));
+  
+  const stopTables = timer.start('documentBuild');
+  
+  // Keep wrapped rows whole instead of continuing them under the next page's header. pdfmake can only
+  // do that for a whole table, so a row taller than a page gets a table of its own that may break,
+  // starting on a new page unless it opens the report, so only the cells too long for one continue
+  const tables: Content[] = [];
+  let start = 0;
+  for (let i = 0; i <= body.length; i++) {
+    if (i < body.length && !tallRows.has(i)) {
+      continue;
+    }
+    if (i > start) {
+      tables.push({ table: { headerRows: 1, dontBreakRows: true, widths, body: [headerRow(), ...body.slice(start, i)] } });
+    }
+    if (i < body.length) {
+      tables.push({
+        table: { headerRows: 1, widths, body: [headerRow(), body[i]] },
+        pageBreak: tables.length > 0 ? 'before' : undefined
+      });
+    }
+    start = i + 1;
+  }
+  
+  // Document definition
+  const docDefinition: TDocumentDefinitions = {
+    content: [
+      { text: 'Sample PDF Report', style: 'header' },
+      { text: `Generated with ${rowCount} rows of data`, style: 'subheader' },
+      { text: 'This PDF was generated on the client-side using Web Workers and pdfMake', margin: [0, 0, 0, 10] },
+      ...tables
+    ],
+    styles: {
+      header: {
+        fontSize: 18,
+        bold: true,
+        margin: [0, 0, 0, 10]
+      },
+      subheader: {
+        fontSize: 14,
+        bold: true,
+        margin: [0, 10, 0, 5]
+      }
+    }
+  };
+  
+  stopTables();
+  
+  return docDefinition;
+}
+
+// The two steps getBuffer runs back to back, which pdfmake's browser build exposes but does not type
+interface SteppedPdf {
+  // Lays out the document and draws its pages into a PDFKit document
+  _createDoc: (options: object) => PdfKitDocument;
+  // Ends the PDFKit document and collects the bytes it writes
+  _flushDoc: (doc: PdfKitDocument, callback: (buffer: Uint8Array) => void) => void;
+}
+
+type PdfKitDocument = object;
+
+// Function to create PDF document
+function createPdf(rowCount: number, schema: DatasetSchema, timer: PhaseTimer): Promise<Uint8Array> {
+  // Create PDF definition
+  const docDefinition = createPdfDefinition(rowCount, schema, timer);
+  
+  // The fonts come from the bundled virtual file system, so the document can be created synchronously
+  const pdfDocGenerator = pdfMake.createPdf(docDefinition) as unknown as SteppedPdf;
+  const pdfKitDocument = timer.time('layout', () => pdfDocGenerator._createDoc({}));
+  
+  const stopSerialization = timer.start('serialization');
+  return new Promise((resolve) => {
+    pdfDocGenerator._flushDoc(pdfKitDocument, (buffer) => {
+      stopSerialization();
+      resolve(new Uint8Array(buffer));
+    });
+  });
+}
+
+// Build the report for a generation request; used by the worker and by main-thread runs
+export const buildPdf: PdfGenerator = ({ rowCount, schema }, timer) => createPdf(rowCount, schema, timer);
@@ -0,0 +1,169 @@
+// Import pdfme modules (TypeScript compatible)
+import { generate } from '@pdfme/generator';
+import { Template } from '@pdfme/common';
+import type { PdfGenerator, PhaseTimer } from '../workers/protocol';
+import { columnAlignment, columnFractions, DataRow, DatasetSchema, generateRows } from './dataset';
+
+// Left edge and width of the table on the page
+const TABLE_X = 30;
+const TABLE_WIDTH = 520;
+
+// Smallest font a long paragraph shrinks to so it stays inside its row
+const MIN_PARAGRAPH_FONT_SIZE = 3;
+
+interface ColumnBox {
+  x: number;
+  width: number;
+}
+
+// Place the columns side by side across the table width
+function columnBoxes(schema: DatasetSchema): ColumnBox[] {
+  let x = TABLE_X;
+  return columnFractions(schema).map(fraction => {
+    const box = { x, width: TABLE_WIDTH * fraction };
+    x += box.width;
+    return box;
+  });
+}
+
+// Create a base schema once and reuse it
+const createBaseSchema = (schema: DatasetSchema, boxes: ColumnBox[]) => [
+  {
+    name: 'header',
+    type: 'text',
+    position: { x: 30, y: 30 },
+    width: 535,
+    height: 20,
+    fontSize: 18,
+    fontColor: '#000000',
+    alignment: 'center',
+  },
+  ...schema.columns.map((_, col) => ({
+    name: `h${col}`,
+    type: 'text',
+    position: { x: boxes[col].x, y: 100 },
+    width: boxes[col].width,
+    height: 15,
+    fontSize: 12,
+    fontColor: '#ffffff',
+    backgroundColor: '#4472C4',
+    alignment: 'center',
+  }))
+];
+
+// Create a template with efficient schema generation
+// Templates are rebuilt on every request so pooled workers are timed like fresh ones
+function createTemplate(
+  data: DataRow[],
+  schema: DatasetSchema,
+  maxRowsPerPage: number
+): { template: Template; inputs: Record<string, string>[]; } {
+  const rowCount = data.length;
+  const boxes = columnBoxes(schema);
+  const baseSchema = createBaseSchema(schema, boxes);
+  const rowHeight = 20;
+  const startY = 120;
+  const totalPages = Math.ceil(rowCount / maxRowsPerPage);
+  
+  // Initialize template with first page schema
+  const template: Template = {
+    basePdf: { width: 595, height: 842, padding: [30, 30, 30, 30] }, // A4 size in points
+    schemas: [baseSchema]
+  };
+  
+  // Pre-allocate schemas for all pages
+  for (let i = 1; i < totalPages; i++) {
+    template.schemas.push([...baseSchema]);
+  }
+  
+  // Batch create all row fields
+  let currentPage = 0;
+  let rowsOnCurrentPage = 0;
+  
+  for (let i = 0; i < rowCount; i++) {
+    if (rowsOnCurrentPage >= maxRowsPerPage) {
+      currentPage++;
+      rowsOnCurrentPage = 0;
+    }
+    
+    const yPosition = startY + (rowsOnCurrentPage * rowHeight);
+    const backgroundColor = i % 2 === 0 ? '#FFFFFF' : '#E6F0FF';
+    
+    // Create field schema for this row - reuse common properties
+    const commonProps = {
+      height: rowHeight,
+      fontSize: 10,
+      fontColor: '#000000',
+      backgroundColor
+    };
+    
+    const rowFields = schema.columns.map((column, col) => ({
+      name: `c${col}_${i}`,
+      type: 'text',
+      position: { x: boxes[col].x, y: yPosition },
+      width: boxes[col].width,
+      alignment: columnAlignment(column.type),
+      // Rows have a fixed height, so long paragraphs shrink instead of spilling into the next row
+      ...(column.type === 'paragraph' && {
+        dynamicFontSize: { min: MIN_PARAGRAPH_FONT_SIZE, max: 10, fit: 'vertical' }
+      }),
+      ...commonProps
+    }));
+    
+    // Add fields to current page schema
+    template.schemas[currentPage].push(...rowFields);
+    rowsOnCurrentPage++;
+  }
+  
+  // Generate inputs separately
+  const inputs = generateInputs(data, schema, rowCount);
+  
+  return { template, inputs };
+}
+
+// Generate the input that fills the template
+// pdfme renders the whole template once per input, so every page's fields come from this single
+// record; the header fields share their names across pages and are therefore filled on every page
+function generateInputs(data: DataRow[], schema: DatasetSchema, rowCount: number): Record<string, string>[] {
+  const input: Record<string, string> = {
+    header: `Sample PDF Report - ${rowCount} Rows`
+  };
+  schema.columns.forEach((column, col) => {
+    input[`h${col}`] = column.header;
+  });
+  
+  // Fill in row data
+  data.forEach((row, i) => {
+    row.forEach((text, col) => {
+      input[`c${col}_${i}`] = text;
+    });
+  });
+  
+  return [input];
+}
+
+// Function to create PDF
+async function createPdf(
+  rowCount: number,
+  schema: DatasetSchema,
+  maxRowsPerPage: number,
+  timer: PhaseTimer
+): Promise<Uint8Array> {
+  const data = timer.time('dataGeneration', () => generateRows(schema, rowCount));
+  
+  const { template, inputs } = timer.time('documentBuild', () => createTemplate(data, schema, maxRowsPerPage));
+
+  // Generate PDF with optimized parameters; fonts are loaded and text is laid out inside generate
+  return timer.timeAsync('serialization', () => generate({
+    template,
+    inputs,
+    options: {
+      title: "Sample PDF Report",
+      author: "PDFme Generator"
+    }
+  }));
+}
+
+// Build the report for a generation request; used by the worker and by main-thread runs
+export const buildPdf: PdfGenerator = ({ rowCount, schema, options }, timer) =>
+  createPdf(rowCount, schema, Number(options.rowsPerPage ?? 30), timer);
@@ -0,0 +1,156 @@
+// Import Typst.ts all-in-one API
+import { $typst } from '@myriaddreamin/typst.ts/dist/esm/contrib/snippet.mjs';
+import type { PdfGenerator, PhaseTimer } from '../workers/protocol';
+import { columnAlignment, columnFractions, DataRow, DatasetSchema, generateRows } from './dataset';
+
+// Quote text as a Typst string literal
+function typstString(text: string): string {
+  return `"${text.replace(/[\\"]/g, match => `\\${match}`)}"`;
+}
+
+// Typst length for a share of the table width
+function typstPercent(fraction: number): string {
+  return `${Number((fraction * 100).toFixed(4))}%`;
+}
+
+// Function to create Typst content
+function createTypstContent(data: DataRow[], schema: DatasetSchema): string {
+  const columns = columnFractions(schema).map(typstPercent).join(', ');
+  const alignments = schema.columns.map(column => columnAlignment(column.type)).join(', ');
+  const headers = schema.columns.map(column => `[#strong(${typstString(column.header)})]`).join(', ');
+
+  // Start with document metadata and styling
+  let typstContent = `
+#set document(title: "Sample PDF Report", author: "Typst Generator")
+#set page(margin: 1.5cm)
+#set text(font: "New Computer Modern")
+
+= Sample PDF Report
+#text(size: 14pt)[Generated with ${data.length} rows of data]
+
+#text(size: 10pt)[This PDF was generated on the client-side using Web Workers and Typst]
+
+/* Function to create alternating row colors */
+#let alt-colors(row) = {
+  if calc.odd(row) {
+    return white
+  } else {
+    return rgb(245, 245, 245)
+  }
+}
+
+/* Create table */
+#table(
+  columns: (${columns},),
+  inset: 8pt,
+  align: (${alignments},),
+  stroke: 0.7pt,
+  fill: (_, row) => if row == 0 { rgb(230, 230, 230) } else { alt-colors(row) },
+  table.header(${headers}),
+`;
+
+  // Add rows to table
+  for (const row of data) {
+    // Cells are string literals so characters such as @ are not read as markup
+    typstContent += `
+  ${row.map(text => `[#${typstString(text)}]`).join(', ')},`;
+  }
+
+  // Close the table
+  typstContent += `
+)`;
+
+  return typstContent;
+}
+
+// Initialize Typst.ts modules
+async function initTypst() {
+  try {
+    // Set compiler module path directly from CDN with specific version
+    const compilerUrl = 'https://cdn.jsdelivr.net/npm/@myriaddreamin/typst-ts-web-compiler@0.5.5-rc7/pkg/typst_ts_web_compiler_bg.wasm';
+    const rendererUrl = 'https://cdn.jsdelivr.net/npm/@myriaddreamin/typst-ts-renderer@0.5.5-rc7/pkg/typst_ts_renderer_bg.wasm';
+    
+    // Configure with async functions to fetch the modules
+    $typst.setCompilerInitOptions({
+      getModule: async () => {
+        try {
+          const response = await fetch(compilerUrl);
+          if (!response.ok) {
+            throw new Error(`Failed to fetch compiler WASM: ${response.status} ${response.statusText}`);
+          }
+          return await response.arrayBuffer();
+        } catch (error) {
+          console.error("Error fetching compiler WASM:", error);
+          throw error;
+        }
+      }
+    });
+    
+    $typst.setRendererInitOptions({
+      getModule: async () => {
+        try {
+          const response = await fetch(rendererUrl);
+          if (!response.ok) {
+            throw new Error(`Failed to fetch renderer WASM: ${response.status} ${response.statusText}`);
+          }
+          return await response.arrayBuffer();
+        } catch (error) {
+          console.error("Error fetching renderer WASM:", error);
+          throw error;
+        }
+      }
+    });
+    
+    // Try a simple SVG generation as a test, so a failed initialization surfaces here
+    await $typst.svg({ mainContent: "Hello, World!" });
+  } catch (error) {
+    console.error("Error setting Typst initialization options:", error);
+    throw error;
+  }
+}
+
+// Initialization result shared by every request this worker serves
+let typstReady: Promise<void> | null = null;
+
+// Initialize Typst.ts once per worker; the init options cannot be set again after the first compile
+function ensureTypst(): Promise<void> {
+  if (!typstReady) {
+    typstReady = initTypst().catch(error => {
+      // Allow the next request to retry
+      typstReady = null;
+      throw error;
+    });
+  }
+  return typstReady;
+}
+
+// Function to create PDF document
+async function createPdf(rowCount: number, schema: DatasetSchema, timer: PhaseTimer): Promise<Uint8Array> {
+  // Generate data
+  const data = timer.time('dataGeneration', () => generateRows(schema, rowCount));
+  
+  try {
+    // Initialize Typst.ts; the first request loads the compiler WASM and its bundled fonts
+    await timer.timeAsync('init', ensureTypst);
+    
+    // Create Typst content
+    const typstContent = timer.time('documentBuild', () => createTypstContent(data, schema));
+    
+    // Use Typst.ts to compile the content to PDF; layout happens inside the compiler
+    const pdfBytes = await timer.timeAsync('serialization', () => $typst.pdf({ 
+      mainContent: typstContent
+    }));
+    
+    if (!pdfBytes) {
+      throw new Error('Failed to generate PDF with Typst');
+    }
+    
+    return pdfBytes;
+  } catch (error) {
+    console.error('Error compiling Typst:', error);
+    throw error;
+  }
+}
+
+// Build the report for a generation request; used by the worker and by main-thread runs
+export const buildPdf: PdfGenerator = ({ rowCount, schema }, timer) => createPdf(rowCount, schema, timer);
@@ -0,0 +1,38 @@
+/**
+ * Programmatic hook that lets scripted browsers run benchmark suites in the app
+ */
+import { engines } from '../engines/registry';
+import { createResultsFile, ResultsFile } from './resultsFile';
+import { BenchmarkSuite, DEFAULT_SUITE_SETTINGS, runSuite, toResultsContent } from './suite';
+
+// Suite passed to the hook; settings left out use the suite defaults
+export type AutomationSuite = Partial<BenchmarkSuite> & Pick<BenchmarkSuite, 'rowCounts'>;
+
+export interface AutomationHook {
+  engines: { id: string; label: string; requiresNetwork: boolean }[];
+  // Run a suite and return it as an exported results file
+  run: (suite: AutomationSuite) => Promise<ResultsFile>;
+}
+
+declare global {
+  interface Window {
+    pdfBenchmark?: AutomationHook;
+  }
+}
+
+/**
+ * Expose the automation hook on window.pdfBenchmark
+ */
+export function installAutomationHook(): void {
+  window.pdfBenchmark = {
+    engines: engines.map(engine => ({
+      id: engine.id,
+      label: engine.label,
+      requiresNetwork: engine.capabilities.requiresNetwork
+    })),
+    run: async (suite) => {
+      const comparisons = await runSuite({ ...DEFAULT_SUITE_SETTINGS, ...suite });
+      return createResultsFile(toResultsContent(comparisons));
+    }
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * Runs repeated generations for an engine and summarizes the measured samples
+ */
+import { EngineOptionValues, getDefaultOptions, PdfEngine, PdfGenerationResult } from '../engines/types';
+import type { DatasetSchema } from '../generators/dataset';
+import { measureMemory, MemorySample, toMemorySample } from './memory';
+import { getPhaseTimings, PHASES, Phase, PhaseTimings } from './metrics';
+import type { PdfTransport } from '../workers/protocol';
+import { ExecutionMode, formatTime, generatePdf, resetWorkerPool, StartMode } from './pdfService';
+import type { PdfStructure } from './pdfStructure';
+import { ResponsivenessMetrics, startResponsivenessProbe } from './responsiveness';
+import { summarize, SummaryStats } from './statistics';
+
+export interface BenchmarkConfig {
+  rowCount: number;
+  options: EngineOptionValues;
+  // Runs executed first and discarded, to let JIT and caches settle
+  warmupRuns: number;
+  // Runs whose timings are recorded
+  measuredRuns: number;
+  // Whether generations run in a worker or on the main thread
+  execution: ExecutionMode;
+  // Whether every run starts a fresh worker or reuses a persistent one
+  startMode: StartMode;
+  // How the PDF is sent back from the worker
+  transport: PdfTransport;
+  // Limit for each generation in milliseconds; no limit when unset
+  timeoutMs?: number;
+  // Columns of the generated table; the default report when unset
+  schema?: DatasetSchema;
+  // Measure memory of the page and its workers, which may wait for a garbage collection
+  // before every run; the main-thread heap counter when unset
+  wholePageMemory?: boolean;
+}
+
+// Outcome of a benchmark, sweep or engine run
+export type RunStatus = 'completed' | 'failed' | 'cancelled' | 'timed-out';
+
+export const RUN_STATUS_LABELS: Record<RunStatus, string> = {
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  'timed-out': 'Timed out'
+};
+
+export interface BenchmarkResult {
+  engineId: string;
+  config: BenchmarkConfig;
+  // Phase timings of every measured run, in execution order
+  samples: PhaseTimings[];
+  summary: Record<Phase, SummaryStats>;
+  // Timings of the very first generation. In a worker it starts from a fresh worker in both start
+  // modes; on the main thread it is only the first run in this page session, as loaded modules stay cached
+  firstRun: PhaseTimings;
+  // Page responsiveness observed during the measured runs
+  responsiveness?: ResponsivenessMetrics;
+  // Memory around every measured run, in execution order; absent in results saved before it was measured
+  memory?: MemorySample[];
+  // Size in bytes of the generated PDF
+  pdfSize: number;
+  // Structure of the final measured run's PDF; absent if it could not be parsed or in older results
+  structure?: PdfStructure;
+  // Result of the final measured run, kept for viewing or downloading
+  lastResult: PdfGenerationResult;
+}
+
+// Benchmark result without the generated PDF, for results kept in bulk
+export type BenchmarkMeasurement = Omit<BenchmarkResult, 'lastResult'>;
+
+export interface SweepResult {
+  engineId: string;
+  // Shared configuration; each point overrides the row count
+  config: BenchmarkConfig;
+  points: BenchmarkMeasurement[];
+  status: RunStatus;
+  // Set when the sweep stopped early because a point failed, was cancelled or timed out
+  error?: string;
+  failedRowCount?: number;
+}
+
+// Settings shared by every engine in a comparison; each engine uses its default options
+export type ComparisonConfig = Omit<BenchmarkConfig, 'options'>;
+
+export interface EngineRun {
+  engineId: string;
+  status: RunStatus;
+  measurement?: BenchmarkMeasurement;
+  error?: string;
+}
+
+export interface ComparisonResult {
+  config: ComparisonConfig;
+  // ISO timestamp of when the comparison started
+  startedAt: string;
+  runs: EngineRun[];
+}
+
+export interface ComparisonProgress extends BenchmarkProgress {
+  engineId: string;
+}
+
+export interface SweepProgress extends BenchmarkProgress {
+  rowCount: number;
+  // 1-based index of the current point
+  point: number;
+  points: number;
+}
+
+export interface BenchmarkProgress {
+  phase: 'warmup' | 'measured';
+  // 1-based index within the current phase
+  run: number;
+  total: number;
+}
+
+export const DEFAULT_BENCHMARK_CONFIG: BenchmarkConfig = {
+  rowCount: 10,
+  options: {},
+  warmupRuns: 0,
+  measuredRuns: 1,
+  execution: 'worker',
+  startMode: 'cold',
+  transport: 'binary'
+};
+
+/**
+ * Summarize each phase across a set of samples
+ * @param samples Phase timings of the measured runs
+ */
+export function summarizePhases(samples: PhaseTimings[]): Record<Phase, SummaryStats> {
+  const summary = {} as Record<Phase, SummaryStats>;
+
+  for (const { key } of PHASES) {
+    summary[key] = summarize(samples.map(sample => sample[key]));
+  }
+
+  return summary;
+}
+
+/**
+ * Classify why a benchmark stopped and describe it for display
+ * @param error Error thrown by the run
+ * @param config Configuration of the run, for the timeout it used
+ */
+export function describeFailure(
+  error: unknown,
+  config: Pick<BenchmarkConfig, 'timeoutMs'>
+): { status: Exclude<RunStatus, 'completed'>; error: string } {
+  // Aborted generations reject with the signal's reason, a DOMException
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return { status: 'timed-out', error: `Timed out after ${formatTime(config.timeoutMs ?? 0)}` };
+  }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return { status: 'cancelled', error: 'Cancelled' };
+  }
+  return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Drop the generated PDF so batches of results don't keep every document in memory
+ */
+export function toMeasurement(result: BenchmarkResult): BenchmarkMeasurement {
+  return {
+    engineId: result.engineId,
+    config: result.config,
+    samples: result.samples,
+    summary: result.summary,
+    firstRun: result.firstRun,
+    responsiveness: result.responsiveness,
+    memory: result.memory,
+    pdfSize: result.pdfSize,
+    structure: result.structure
+  };
+}
+
+// Analyze the final PDF; a file pdf-lib cannot parse leaves the structure unknown rather than failing the run
+async function analyzeResult(result: PdfGenerationResult): Promise<PdfStructure | undefined> {
+  try {
+    // pdf-lib's parser is only needed once a run finishes, so it stays out of the initial bundle
+    const { analyzePdf } = await import('./pdfStructure');
+    return await analyzePdf(new Uint8Array(await result.pdf.arrayBuffer()));
+  } catch (err) {
+    console.warn('Could not analyze the generated PDF:', err);
+    return undefined;
+  }
+}
+
+/**
+ * Run warm-up and measured generations sequentially for a single engine
+ *
+ * In warm mode the engine's pool is emptied first, so the first run pays the
+ * cold start and the remaining runs show steady-state performance. On the main
+ * thread only the page's first benchmark of an engine loads its modules. The final
+ * PDF is analyzed after the measured runs, so the analysis is not timed.
+ * @param engine Engine to benchmark
+ * @param config Row count, engine options and run counts
+ * @param onProgress Optional callback invoked before every run
+ * @param signal Optional signal that stops the benchmark and its running generation
+ * @returns Promise that resolves to the raw samples and their summary statistics
+ */
+export async function runBenchmark(
+  engine: PdfEngine,
+  config: BenchmarkConfig,
+  onProgress?: (progress: BenchmarkProgress) => void,
+  signal?: AbortSignal
+): Promise<BenchmarkResult> {
+  if (config.measuredRuns < 1) {
+    throw new Error('At least one measured run is required');
+  }
+
+  if (config.startMode === 'warm') {
+    resetWorkerPool(engine);
+  }
+
+  let firstRun: PhaseTimings | undefined;
+  // Warm-up runs are discarded, so only measured runs sample memory
+  const generate = async (sampleMemory: boolean) => {
+    const snapshot = () => (sampleMemory ? measureMemory(config.wholePageMemory) : Promise.resolve(null));
+    const memoryBefore = await snapshot();
+    const result = await generatePdf(engine, config.rowCount, config.options, {
+      execution: config.execution,
+      startMode: config.startMode,
+      transport: config.transport,
+      timeoutMs: config.timeoutMs,
+      schema: config.schema,
+      signal
+    });
+    const timings = getPhaseTimings(result.metrics);
+    const memory = toMemorySample(memoryBefore, await snapshot(), result.pdf.size);
+    firstRun ??= timings;
+    return { result, timings, memory };
+  };
+
+  for (let run = 1; run <= config.warmupRuns; run++) {
+    onProgress?.({ phase: 'warmup', run, total: config.warmupRuns });
+    await generate(false);
+  }
+
+  const samples: PhaseTimings[] = [];
+  const memorySamples: MemorySample[] = [];
+  let lastResult: PdfGenerationResult | undefined;
+  // Headless runs have no page whose responsiveness could suffer
+  const probe = typeof requestAnimationFrame === 'function' ? startResponsivenessProbe() : null;
+  let responsiveness: ResponsivenessMetrics | undefined;
+
+  try {
+    for (let run = 1; run <= config.measuredRuns; run++) {
+      onProgress?.({ phase: 'measured', run, total: config.measuredRuns });
+      const { result, timings, memory } = await generate(true);
+      lastResult = result;
+      samples.push(timings);
+      memorySamples.push(memory);
+    }
+  } finally {
+    responsiveness = probe?.stop();
+  }
+
+  return {
+    engineId: engine.id,
+    config,
+    samples,
+    summary: summarizePhases(samples),
+    firstRun: firstRun!,
+    responsiveness,
+    memory: memorySamples,
+    pdfSize: lastResult!.pdf.size,
+    structure: await analyzeResult(lastResult!),
+    lastResult: lastResult!
+  };
+}
+
+/**
+ * Benchmark an engine at every row count of a sweep, smallest first
+ *
+ * Larger row counts are skipped once a point fails, since they would fail too.
+ * @param engine Engine to benchmark
+ * @param rowCounts Row counts to run, in ascending order
+ * @param config Options and run counts shared by every point
+ * @param onProgress Optional callback invoked before every run
+ * @param signal Optional signal that stops the sweep at the current point
+ * @returns Promise that resolves to the measurements of every successful point
+ */
+export async function runSweep(
+  engine: PdfEngine,
+  rowCounts: number[],
+  config: BenchmarkConfig,
+  onProgress?: (progress: SweepProgress) => void,
+  signal?: AbortSignal
+): Promise<SweepResult> {
+  const sweep: SweepResult = { engineId: engine.id, config, points: [], status: 'completed' };
+
+  for (let i = 0; i < rowCounts.length; i++) {
+    const rowCount = rowCounts[i];
+
+    try {
+      const result = await runBenchmark(
+        engine,
+        { ...config, rowCount },
+        progress => onProgress?.({ ...progress, rowCount, point: i + 1, points: rowCounts.length }),
+        signal
+      );
+      sweep.points.push(toMeasurement(result));
+    } catch (err) {
+      const failure = describeFailure(err, config);
+      sweep.status = failure.status;
+      sweep.error = failure.error;
+      sweep.failedRowCount = rowCount;
+      break;
+    }
+  }
+
+  return sweep;
+}
+
+/**
+ * Benchmark every engine sequentially with the same configuration
+ *
+ * A failing or timed-out engine is recorded with its error and does not stop
+ * the others; cancelling marks the current and remaining engines as cancelled.
+ * @param engines Engines to compare
+ * @param config Row count and run counts shared by every engine
+ * @param onProgress Optional callback invoked before every run
+ * @param signal Optional signal that cancels the comparison
+ * @returns Promise that resolves to one run per engine, in the order given
+ */
+export async function runComparison(
+  engines: PdfEngine[],
+  config: ComparisonConfig,
+  onProgress?: (progress: ComparisonProgress) => void,
+  signal?: AbortSignal
+): Promise<ComparisonResult> {
+  const result: ComparisonResult = { config, startedAt: new Date().toISOString(), runs: [] };
+
+  for (const engine of engines) {
+    if (signal?.aborted) {
+      result.runs.push({ engineId: engine.id, status: 'cancelled', error: 'Cancelled' });
+      continue;
+    }
+
+    try {
+      const benchmark = await runBenchmark(
+        engine,
+        { ...config, options: getDefaultOptions(engine) },
+        progress => onProgress?.({ ...progress, engineId: engine.id }),
+        signal
+      );
+      result.runs.push({ engineId: engine.id, status: 'completed', measurement: toMeasurement(benchmark) });
+    } catch (err) {
+      result.runs.push({ engineId: engine.id, ...describeFailure(err, config) });
+    }
+  }
+
+  return result;
+}
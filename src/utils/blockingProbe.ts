@@ -0,0 +1,62 @@
+/**
+ * Measures how long the main thread was unable to run other tasks
+ */
+
+// Time beyond this in a task counts as blocking, matching the browser's long-task definition
+export const LONG_TASK_THRESHOLD = 50;
+
+export interface BlockingProbe {
+  // Stop probing and return the total blocked time in milliseconds
+  stop: () => number;
+}
+
+/**
+ * Start a heartbeat that notices when the main thread stops scheduling timers
+ *
+ * Like Total Blocking Time, only the part of a gap between heartbeats beyond
+ * a long task's length counts as blocked time. Timers are used rather than a
+ * message loop so the probe stays idle instead of competing with workers for
+ * the CPU. Browsers throttle timers in background tabs, so gaps while the page
+ * is hidden are not counted.
+ */
+export function startBlockingProbe(): BlockingProbe {
+  let lastBeat = performance.now();
+  let blockingTime = 0;
+  let timer: ReturnType<typeof setTimeout>;
+
+  // The CLI runs without a document and is never hidden
+  const isHidden = () => typeof document !== 'undefined' && document.hidden;
+
+  const recordGap = (counted: boolean) => {
+    const now = performance.now();
+
+    if (counted) {
+      blockingTime += Math.max(0, now - lastBeat - LONG_TASK_THRESHOLD);
+    }
+    lastBeat = now;
+  };
+
+  // Hiding the page ends a gap that was visible, showing it ends one that was not
+  const handleVisibilityChange = () => recordGap(isHidden());
+
+  const beat = () => {
+    recordGap(!isHidden());
+    timer = setTimeout(beat, 0);
+  };
+  timer = setTimeout(beat, 0);
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+
+  return {
+    stop: () => {
+      clearTimeout(timer);
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
+      // The work just finished may not have yielded to a heartbeat yet
+      recordGap(!isHidden());
+      return blockingTime;
+    }
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Search for the largest document an engine can generate within its limits
+ */
+import type { PdfEngine } from '../engines/types';
+import { BenchmarkConfig, describeFailure, runBenchmark, RunStatus } from './benchmarkRunner';
+import { formatBytes } from './pdfService';
+
+export interface CapacityConfig extends Omit<BenchmarkConfig, 'rowCount' | 'warmupRuns' | 'measuredRuns' | 'timeoutMs'> {
+  // First row count tried; doubled until a generation fails
+  startRowCount: number;
+  // Upper bound of the search, reported as the limit when even it succeeds
+  maxRowCount: number;
+  // Generations taking longer are aborted and count as failed
+  timeLimitMs: number;
+  // Generations leaving more memory in use count as failed; ignored when unset or unmeasurable
+  memoryLimitBytes?: number;
+  // Search stops once the gap between success and failure is within this fraction of the row count
+  precision: number;
+}
+
+// Why the search could not go higher
+export type CapacityLimit = 'error' | 'time-limit' | 'memory-limit' | 'max-rows';
+
+export const CAPACITY_LIMIT_LABELS: Record<CapacityLimit, string> = {
+  error: 'Generation failed',
+  'time-limit': 'Time limit exceeded',
+  'memory-limit': 'Memory limit exceeded',
+  'max-rows': 'Search bound reached'
+};
+
+export interface CapacityAttempt {
+  rowCount: number;
+  // Absent when the generation succeeded within every limit
+  limit?: Exclude<CapacityLimit, 'max-rows'>;
+  // Total generation time; absent when the generation did not finish
+  totalTime?: number;
+  // Memory in use after the generation, where the browser can measure it
+  memoryAfter?: number;
+  pdfSize?: number;
+  error?: string;
+}
+
+export interface CapacityResult {
+  engineId: string;
+  config: CapacityConfig;
+  // ISO timestamp of when the search started
+  startedAt: string;
+  // 'cancelled' when the search was stopped before it narrowed down the capacity
+  status: Extract<RunStatus, 'completed' | 'cancelled'>;
+  // Highest row count generated within every limit; 0 when even the smallest attempt failed
+  maxSuccessfulRowCount: number;
+  // Lowest row count that failed, and why; absent when the search bound was reached or it was cancelled first
+  failedRowCount?: number;
+  limit?: CapacityLimit;
+  reason?: string;
+  // Every attempt in the order it was made
+  attempts: CapacityAttempt[];
+}
+
+export interface CapacityProgress {
+  stage: 'growing' | 'narrowing';
+  rowCount: number;
+  // 1-based index of the attempt
+  attempt: number;
+}
+
+export const DEFAULT_CAPACITY_LIMITS: Pick<
+  CapacityConfig,
+  'startRowCount' | 'maxRowCount' | 'timeLimitMs' | 'precision'
+> = {
+  startRowCount: 100,
+  maxRowCount: 1_000_000,
+  timeLimitMs: 30_000,
+  precision: 0.05
+};
+
+/**
+ * Find the highest row count an engine generates within its time and memory limits
+ *
+ * The row count doubles from the start until an attempt fails, then a binary
+ * search between the last success and the first failure narrows it down. A
+ * worker that runs out of memory often dies without reporting an error, so
+ * the time limit is what ends those attempts.
+ * @param engine Engine to probe
+ * @param config Search bounds and the limits a generation must stay within
+ * @param onProgress Optional callback invoked before every attempt
+ * @param signal Optional signal that stops the search, keeping what was found so far
+ * @returns Promise that resolves to the highest successful row count and the reason it could not go higher
+ */
+export async function findCapacity(
+  engine: PdfEngine,
+  config: CapacityConfig,
+  onProgress?: (progress: CapacityProgress) => void,
+  signal?: AbortSignal
+): Promise<CapacityResult> {
+  if (config.startRowCount < 1 || config.maxRowCount < config.startRowCount) {
+    throw new Error('Start row count must be at least 1 and no more than the maximum');
+  }
+
+  const result: CapacityResult = {
+    engineId: engine.id,
+    config,
+    startedAt: new Date().toISOString(),
+    status: 'completed',
+    maxSuccessfulRowCount: 0,
+    attempts: []
+  };
+  const benchmarkConfig = {
+    ...config,
+    warmupRuns: 0,
+    measuredRuns: 1,
+    timeoutMs: config.timeLimitMs
+  };
+
+  // Generate once at a row count; null when the search was cancelled
+  const attempt = async (rowCount: number, stage: CapacityProgress['stage']): Promise<CapacityAttempt | null> => {
+    onProgress?.({ stage, rowCount, attempt: result.attempts.length + 1 });
+
+    try {
+      const benchmark = await runBenchmark(engine, { ...benchmarkConfig, rowCount }, undefined, signal);
+      const memoryAfter = benchmark.memory?.[0]?.after;
+      const outcome: CapacityAttempt = {
+        rowCount,
+        totalTime: benchmark.summary.total.median,
+        memoryAfter,
+        pdfSize: benchmark.pdfSize
+      };
+
+      if (config.memoryLimitBytes && memoryAfter !== undefined && memoryAfter > config.memoryLimitBytes) {
+        outcome.limit = 'memory-limit';
+        outcome.error = `${formatBytes(memoryAfter)} in use, above the ${formatBytes(config.memoryLimitBytes)} limit`;
+      }
+      return outcome;
+    } catch (err) {
+      const failure = describeFailure(err, benchmarkConfig);
+      if (failure.status === 'cancelled') {
+        return null;
+      }
+      return { rowCount, limit: failure.status === 'timed-out' ? 'time-limit' : 'error', error: failure.error };
+    }
+  };
+
+  let lowestFailure: CapacityAttempt | undefined;
+  const record = (outcome: CapacityAttempt) => {
+    result.attempts.push(outcome);
+    if (!outcome.limit) {
+      result.maxSuccessfulRowCount = Math.max(result.maxSuccessfulRowCount, outcome.rowCount);
+    } else if (!lowestFailure || outcome.rowCount < lowestFailure.rowCount) {
+      lowestFailure = outcome;
+    }
+  };
+
+  // Grow exponentially until an attempt fails or the search bound succeeds
+  for (let rowCount = config.startRowCount; !lowestFailure; rowCount = Math.min(rowCount * 2, config.maxRowCount)) {
+    const outcome = await attempt(rowCount, 'growing');
+    if (!outcome) {
+      result.status = 'cancelled';
+      return result;
+    }
+    record(outcome);
+
+    if (!outcome.limit && rowCount >= config.maxRowCount) {
+      result.limit = 'max-rows';
+      result.reason = `Succeeded at the search bound of ${config.maxRowCount.toLocaleString()} rows`;
+      return result;
+    }
+  }
+
+  // Narrow down between the highest success and the lowest failure
+  const tolerance = () => Math.max(1, Math.floor(result.maxSuccessfulRowCount * config.precision));
+  while (lowestFailure.rowCount - result.maxSuccessfulRowCount > tolerance()) {
+    const rowCount = Math.floor((result.maxSuccessfulRowCount + lowestFailure.rowCount) / 2);
+    const outcome = await attempt(rowCount, 'narrowing');
+    if (!outcome) {
+      result.status = 'cancelled';
+      break;
+    }
+    record(outcome);
+  }
+
+  result.failedRowCount = lowestFailure.rowCount;
+  result.limit = lowestFailure.limit;
+  result.reason = lowestFailure.error;
+  return result;
+}
@@ -0,0 +1,27 @@
+/**
+ * Description of the machine and browser a benchmark ran on
+ */
+
+export interface EnvironmentInfo {
+  userAgent: string;
+  platform: string;
+  language: string;
+  hardwareConcurrency: number;
+  // Approximate device RAM in GB, only reported by Chromium-based browsers
+  deviceMemory?: number;
+}
+
+/**
+ * Collect environment details from the current browser
+ */
+export function collectEnvironment(): EnvironmentInfo {
+  const nav = navigator as Navigator & { deviceMemory?: number };
+
+  return {
+    userAgent: nav.userAgent,
+    platform: nav.platform,
+    language: nav.language,
+    hardwareConcurrency: nav.hardwareConcurrency,
+    deviceMemory: nav.deviceMemory
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Persistent benchmark run history and golden page images stored in IndexedDB
+ */
+import type { DatasetSchema } from '../generators/dataset';
+import type { BenchmarkMeasurement } from './benchmarkRunner';
+import { collectEnvironment, EnvironmentInfo } from './environment';
+
+const DB_NAME = 'pdf-benchmark';
+const DB_VERSION = 2;
+const RUNS_STORE = 'runs';
+const GOLDEN_STORE = 'goldens';
+
+export type RunSource = 'single' | 'sweep' | 'comparison';
+
+export interface HistoryEntry extends BenchmarkMeasurement {
+  id: number;
+  // ISO timestamp of when the run finished
+  timestamp: string;
+  environment: EnvironmentInfo;
+  // Which part of the UI produced the run
+  source: RunSource;
+}
+
+// Reference rendering of an engine's report, kept per engine, row count and schema to spot its layout regressions
+export interface GoldenImage {
+  // Engine, row count and schema together, as built by goldenKey
+  key: string;
+  engineId: string;
+  rowCount: number;
+  // Columns of the table that was rendered
+  schema: DatasetSchema;
+  // ISO timestamp of when it was saved
+  savedAt: string;
+  // Pixels per PDF point the pages were rendered at
+  scale: number;
+  // PNG image of every saved page, in order
+  pages: Blob[];
+}
+
+export interface HistoryFilter {
+  engineId?: string;
+  rowCount?: number;
+}
+
+export interface HistorySession {
+  // Timestamp shared by every run saved together
+  timestamp: string;
+  source: RunSource;
+  entries: HistoryEntry[];
+}
+
+// Dispatches a 'change' event whenever runs are saved or deleted
+export const historyEvents = new EventTarget();
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the database, creating the object store on first use
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          const store = request.result.createObjectStore(RUNS_STORE, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('engineId', 'engineId');
+          store.createIndex('rowCount', 'config.rowCount');
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (event.oldVersion < 2) {
+          request.result.createObjectStore(GOLDEN_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry after a failed open
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+
+  return databasePromise;
+}
+
+/**
+ * Key a golden image is stored under
+ * @param engineId Engine that rendered the report
+ * @param rowCount Row count of the report
+ * @param schema Columns of the table
+ */
+export function goldenKey(engineId: string, rowCount: number, schema: DatasetSchema): string {
+  return `${engineId}@${rowCount}@${JSON.stringify(schema)}`;
+}
+
+/**
+ * Wait for an IndexedDB request to complete
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for a transaction to commit
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Save benchmark measurements as history entries
+ * @param measurements Measurements to persist
+ * @param source Which part of the UI produced them
+ */
+export async function saveRuns(measurements: BenchmarkMeasurement[], source: RunSource): Promise<void> {
+  if (measurements.length === 0) {
+    return;
+  }
+
+  const database = await openDatabase();
+  const transaction = database.transaction(RUNS_STORE, 'readwrite');
+  const store = transaction.objectStore(RUNS_STORE);
+  const timestamp = new Date().toISOString();
+  const environment = collectEnvironment();
+
+  for (const measurement of measurements) {
+    // The id is assigned by the store's key generator
+    store.add({ ...measurement, timestamp, environment, source });
+  }
+
+  await transactionDone(transaction);
+  historyEvents.dispatchEvent(new Event('change'));
+}
+
+/**
+ * Save measurements without letting storage failures interrupt a benchmark
+ * @param measurements Measurements to persist
+ * @param source Which part of the UI produced them
+ */
+export function recordRuns(measurements: BenchmarkMeasurement[], source: RunSource): void {
+  saveRuns(measurements, source).catch(error => {
+    console.error('Failed to save benchmark history:', error);
+  });
+}
+
+/**
+ * List saved runs, newest first
+ * @param filter Optional engine and row count to match
+ */
+export async function listRuns(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+  const database = await openDatabase();
+  const store = database.transaction(RUNS_STORE, 'readonly').objectStore(RUNS_STORE);
+
+  const entries: HistoryEntry[] = await requestToPromise(
+    filter.engineId !== undefined
+      ? store.index('engineId').getAll(filter.engineId)
+      : store.getAll()
+  );
+
+  return entries
+    .filter(entry => filter.rowCount === undefined || entry.config.rowCount === filter.rowCount)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id - a.id);
+}
+
+/**
+ * Get a single saved run
+ * @param id History entry id
+ * @returns The entry, or undefined if it no longer exists
+ */
+export async function getRun(id: number): Promise<HistoryEntry | undefined> {
+  const database = await openDatabase();
+  const store = database.transaction(RUNS_STORE, 'readonly').objectStore(RUNS_STORE);
+
+  return requestToPromise<HistoryEntry | undefined>(store.get(id));
+}
+
+/**
+ * Delete a saved run
+ * @param id History entry id
+ */
+export async function deleteRun(id: number): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(RUNS_STORE, 'readwrite');
+
+  transaction.objectStore(RUNS_STORE).delete(id);
+
+  await transactionDone(transaction);
+  historyEvents.dispatchEvent(new Event('change'));
+}
+
+/**
+ * Group saved runs into the sessions they were recorded in, newest first
+ *
+ * Runs saved together (one comparison or one sweep) share a timestamp.
+ */
+export async function listSessions(): Promise<HistorySession[]> {
+  const sessions = new Map<string, HistorySession>();
+
+  for (const entry of await listRuns()) {
+    const key = `${entry.timestamp}|${entry.source}`;
+    const session = sessions.get(key) ?? { timestamp: entry.timestamp, source: entry.source, entries: [] };
+
+    session.entries.push(entry);
+    sessions.set(key, session);
+  }
+
+  return [...sessions.values()];
+}
+
+/**
+ * Save a golden image, replacing any saved for the same engine, row count and schema
+ * @param golden Pages to keep as the reference
+ */
+export async function saveGolden(golden: GoldenImage): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(GOLDEN_STORE, 'readwrite');
+
+  transaction.objectStore(GOLDEN_STORE).put(golden);
+
+  await transactionDone(transaction);
+}
+
+/**
+ * Get the golden image saved under a key
+ * @param key Key built by goldenKey
+ * @returns The golden image, or undefined if none was saved
+ */
+export async function getGolden(key: string): Promise<GoldenImage | undefined> {
+  const database = await openDatabase();
+  const store = database.transaction(GOLDEN_STORE, 'readonly').objectStore(GOLDEN_STORE);
+
+  return requestToPromise<GoldenImage | undefined>(store.get(key));
+}
+
+/**
+ * Delete the golden image saved under a key
+ * @param key Key built by goldenKey
+ */
+export async function deleteGolden(key: string): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(GOLDEN_STORE, 'readwrite');
+
+  transaction.objectStore(GOLDEN_STORE).delete(key);
+
+  await transactionDone(transaction);
+}
@@ -0,0 +1,109 @@
+/**
+ * Pixel comparison of rendered pages, and conversion of page images to and from PNG
+ */
+
+export interface ImageDiff {
+  // Reference page faded to grey, with differing pixels marked in red
+  image: ImageData;
+  differentPixels: number;
+  totalPixels: number;
+}
+
+// Largest per-channel difference still treated as equal, to absorb anti-aliasing noise
+export const DEFAULT_DIFF_THRESHOLD = 32;
+
+/**
+ * Compare two page images pixel by pixel
+ *
+ * Images of different sizes are compared over the larger extent; pixels that
+ * exist in only one of them count as different.
+ * @param actual Page to check
+ * @param reference Page it should match
+ * @param threshold Largest per-channel difference treated as equal
+ * @returns Diff image and the number of differing pixels
+ */
+export function diffImages(actual: ImageData, reference: ImageData, threshold = DEFAULT_DIFF_THRESHOLD): ImageDiff {
+  const width = Math.max(actual.width, reference.width);
+  const height = Math.max(actual.height, reference.height);
+  const image = new ImageData(width, height);
+  let differentPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const inActual = x < actual.width && y < actual.height;
+      const inReference = x < reference.width && y < reference.height;
+      const a = (y * actual.width + x) * 4;
+      const r = (y * reference.width + x) * 4;
+
+      let differs = inActual !== inReference;
+      if (inActual && inReference) {
+        for (let channel = 0; channel < 4 && !differs; channel++) {
+          differs = Math.abs(actual.data[a + channel] - reference.data[r + channel]) > threshold;
+        }
+      }
+
+      if (differs) {
+        differentPixels++;
+        image.data[offset] = 255;
+      } else {
+        // Faded luminance of the reference keeps the page recognisable behind the marks
+        const source = inReference ? reference.data : actual.data;
+        const index = inReference ? r : a;
+        const luminance = 0.299 * source[index] + 0.587 * source[index + 1] + 0.114 * source[index + 2];
+        const faded = 255 - (255 - luminance) * 0.3;
+        image.data[offset] = faded;
+        image.data[offset + 1] = faded;
+        image.data[offset + 2] = faded;
+      }
+      image.data[offset + 3] = 255;
+    }
+  }
+
+  return { image, differentPixels, totalPixels: width * height };
+}
+
+/**
+ * Draw image data onto a new canvas
+ * @param image Pixels to draw
+ */
+export function imageToCanvas(image: ImageData): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')!.putImageData(image, 0, 0);
+  return canvas;
+}
+
+/**
+ * Encode image data as a data URL for an <img>
+ * @param image Pixels to encode
+ */
+export function imageToDataUrl(image: ImageData): string {
+  return imageToCanvas(image).toDataURL('image/png');
+}
+
+/**
+ * Encode image data as a PNG file
+ * @param image Pixels to encode
+ */
+export function imageToPng(image: ImageData): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    imageToCanvas(image).toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the page as PNG'))), 'image/png');
+  });
+}
+
+/**
+ * Decode a PNG file into image data
+ * @param png PNG file
+ */
+export async function pngToImage(png: Blob): Promise<ImageData> {
+  const bitmap = await createImageBitmap(png);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d')!;
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
@@ -0,0 +1,114 @@
+/**
+ * Memory snapshots taken around generations, using whichever API the browser offers
+ */
+import { formatBytes } from './pdfService';
+import { summarize, SummaryStats } from './statistics';
+
+// API a snapshot came from: the cross-origin-isolated whole-page measurement or Chrome's JS heap counter
+export type MemorySource = 'userAgentSpecific' | 'jsHeap';
+
+export const MEMORY_SOURCE_LABELS: Record<MemorySource, string> = {
+  userAgentSpecific: 'measureUserAgentSpecificMemory (page and workers)',
+  jsHeap: 'performance.memory (main-thread JS heap)'
+};
+
+export interface MemorySnapshot {
+  source: MemorySource;
+  bytes: number;
+}
+
+export interface MemorySample {
+  // Absent when the browser exposes no memory API
+  source?: MemorySource;
+  // Bytes in use immediately before the generation started and after it finished
+  before?: number;
+  after?: number;
+  // Size in bytes of the PDF the run produced
+  pdfSize: number;
+}
+
+// Neither API is in the DOM typings: one is still a proposal, the other is Chrome-only
+interface MemoryPerformance extends Performance {
+  measureUserAgentSpecificMemory?: () => Promise<{ bytes: number }>;
+  memory?: { usedJSHeapSize: number };
+}
+
+/**
+ * Measure current memory usage
+ *
+ * Chrome's performance.memory answers at once but only sees the main thread's
+ * heap and is rounded for privacy. measureUserAgentSpecificMemory also counts
+ * worker memory but is only available on cross-origin isolated pages, and may
+ * wait for the next garbage collection, tens of seconds in Chrome, before
+ * resolving; it is only used when asked for.
+ * @param wholePage Whether to measure the page and its workers where the browser can
+ * @returns The snapshot, or null when the browser exposes no memory API
+ */
+export async function measureMemory(wholePage = false): Promise<MemorySnapshot | null> {
+  const memoryPerformance = performance as MemoryPerformance;
+
+  if (wholePage && memoryPerformance.measureUserAgentSpecificMemory && self.crossOriginIsolated) {
+    try {
+      const { bytes } = await memoryPerformance.measureUserAgentSpecificMemory();
+      return { source: 'userAgentSpecific', bytes };
+    } catch {
+      // Rejected with a SecurityError when the page is not allowed to measure; fall back to the heap counter
+    }
+  }
+  if (memoryPerformance.memory) {
+    return { source: 'jsHeap', bytes: memoryPerformance.memory.usedJSHeapSize };
+  }
+  return null;
+}
+
+/**
+ * Combine the snapshots taken around a run with the size of its output
+ * @param before Snapshot taken before the generation
+ * @param after Snapshot taken after the generation
+ * @param pdfSize Size in bytes of the generated PDF
+ */
+export function toMemorySample(before: MemorySnapshot | null, after: MemorySnapshot | null, pdfSize: number): MemorySample {
+  // Figures from different APIs are not comparable, so both must come from the same one
+  if (!before || !after || before.source !== after.source) {
+    return { pdfSize };
+  }
+  return { source: before.source, before: before.bytes, after: after.bytes, pdfSize };
+}
+
+export interface MemorySummary {
+  source: MemorySource;
+  before: SummaryStats;
+  after: SummaryStats;
+  // Difference between after and before, which is negative when a collection ran during the generation
+  growth: SummaryStats;
+}
+
+/**
+ * Summarize the memory figures of a set of runs
+ * @param samples Memory samples of the measured runs
+ * @returns The summary, or null when no run could measure memory
+ */
+export function summarizeMemory(samples: MemorySample[]): MemorySummary | null {
+  const source = samples.find(sample => sample.source)?.source;
+  const measured = samples.filter(sample => sample.source === source);
+
+  if (!source || measured.length === 0) {
+    return null;
+  }
+
+  return {
+    source,
+    before: summarize(measured.map(sample => sample.before!)),
+    after: summarize(measured.map(sample => sample.after!)),
+    growth: summarize(measured.map(sample => sample.after! - sample.before!))
+  };
+}
+
+/**
+ * Format a change in memory with an explicit sign
+ * @param bytes Change in bytes; negative when memory was released
+ */
+export function formatBytesDelta(bytes: number): string {
+  const rounded = Math.round(bytes);
+  return rounded < 0 ? `−${formatBytes(-rounded)}` : `+${formatBytes(rounded)}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Benchmark phases derived from the metrics each generation reports
+ */
+import type { PdfGenerationMetrics } from '../engines/types';
+import type { WorkerPhase } from '../workers/protocol';
+import { percentile } from './statistics';
+
+export type Phase = 'dataGeneration' | 'pdfCreation' | 'workerOverhead' | 'total' | 'mainThreadBlocking';
+
+// Fine-grained steps: those timed inside the worker plus the main thread's view of the round trip
+export type DetailPhase = WorkerPhase | 'transfer' | 'decoding' | 'other';
+
+export type DetailTimings = Partial<Record<DetailPhase, number>>;
+
+export interface PhaseTimings extends Record<Phase, number> {
+  // Breakdown of the total into fine-grained steps, when the worker reported them
+  detail?: DetailTimings;
+}
+
+// Phases in display order with their labels
+export const PHASES: { key: Phase; label: string }[] = [
+  { key: 'dataGeneration', label: 'Data Generation' },
+  { key: 'pdfCreation', label: 'PDF Creation' },
+  { key: 'workerOverhead', label: 'Worker Overhead' },
+  { key: 'total', label: 'Total Time' },
+  { key: 'mainThreadBlocking', label: 'Main-thread Blocking' }
+];
+
+// Fine-grained steps in the order they happen, with their labels
+export const DETAIL_PHASES: { key: DetailPhase; label: string }[] = [
+  { key: 'init', label: 'Module & Library Init' },
+  { key: 'fonts', label: 'Font Loading' },
+  { key: 'dataGeneration', label: 'Data Generation' },
+  { key: 'documentBuild', label: 'Document Build' },
+  { key: 'layout', label: 'Layout' },
+  { key: 'serialization', label: 'Serialization' },
+  { key: 'encoding', label: 'Base64 Encoding' },
+  { key: 'transfer', label: 'Message Transfer' },
+  { key: 'decoding', label: 'Main-thread Decoding' },
+  { key: 'other', label: 'Spawn & Scheduling' }
+];
+
+/**
+ * Split the total time into the steps the worker and main thread timed
+ *
+ * Whatever the named steps do not cover (spawning the worker, queueing
+ * messages, untimed library work) is reported as 'other'.
+ */
+function getDetailTimings(metrics: PdfGenerationMetrics, total: number): DetailTimings {
+  const detail: DetailTimings = {
+    ...metrics.phases,
+    transfer: metrics.transferTime ?? 0,
+    decoding: metrics.decodingTime ?? 0
+  };
+  const covered = Object.values(detail).reduce((sum, value) => sum + (value ?? 0), 0);
+
+  detail.other = Math.max(0, total - covered);
+  return detail;
+}
+
+/**
+ * Split a single generation's metrics into phase durations
+ * @param metrics Metrics returned by the PDF service
+ * @returns Duration of every phase in milliseconds
+ */
+export function getPhaseTimings(metrics: PdfGenerationMetrics): PhaseTimings {
+  const totalProcessTime = metrics.totalProcessTime || 0;
+
+  return {
+    dataGeneration: metrics.dataGenerationTime,
+    pdfCreation: metrics.totalTime - metrics.dataGenerationTime,
+    workerOverhead: totalProcessTime - metrics.totalTime,
+    total: totalProcessTime,
+    mainThreadBlocking: metrics.mainThreadBlockingTime ?? 0,
+    ...(metrics.phases && { detail: getDetailTimings(metrics, totalProcessTime) })
+  };
+}
+
+/**
+ * Median of every fine-grained step across samples
+ * @param samples Phase timings of the measured runs
+ * @returns Median duration of each step reported by at least one sample
+ */
+export function medianDetailTimings(samples: PhaseTimings[]): DetailTimings {
+  const medians: DetailTimings = {};
+  const details = samples.flatMap(sample => (sample.detail ? [sample.detail] : []));
+
+  for (const { key } of DETAIL_PHASES) {
+    // A step missing from some runs (such as init on a reused worker) took no time in them
+    if (details.some(detail => detail[key] !== undefined)) {
+      const values = details.map(detail => detail[key] ?? 0).sort((a, b) => a - b);
+      medians[key] = percentile(values, 50);
+    }
+  }
+
+  return medians;
+}
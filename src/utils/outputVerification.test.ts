@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { getEngine } from '../engines/registry';
+import type { PdfEngine } from '../engines/types';
+import { DatasetSchema } from '../generators/dataset';
+import { checkReportText, verifyEngine } from './outputVerification';
+
+const HEADERS = ['Name', 'Age'];
+const ROWS = [['Person 1', '20'], ['Person 2', '21'], ['Person 3', '22']];
+
+describe('checkReportText', () => {
+  it('accepts every row in order with headers on every page', () => {
+    const pages = ['Report Name Age Person 1 20 Person 2 21', 'Name Age Person 3 22'];
+    expect(checkReportText(pages, ROWS, HEADERS, { min: 2, max: 2 })).toEqual({ issues: [], rowsFound: 3 });
+  });
+
+  it('accepts cells wrapped across lines and a row continued under the next page headers', () => {
+    const pages = ['Name Age Per son 1 20 Person', 'Name Age 2 21 Person 3 22'];
+    expect(checkReportText(pages, ROWS, HEADERS).issues).toEqual([]);
+  });
+
+  it('reports missing and reordered rows', () => {
+    const pages = ['Name Age Person 3 22 Person 1 20'];
+    expect(checkReportText(pages, ROWS, HEADERS)).toEqual({
+      issues: [{ kind: 'missing-rows', message: '2 of 3 rows not found verbatim and in order (row 2, 3)' }],
+      rowsFound: 1
+    });
+  });
+
+  it('does not match a cell inside a longer word', () => {
+    const pages = ['Name Age Person 1 200 Person 2 21 Person 3 22'];
+    expect(checkReportText(pages, ROWS, HEADERS).rowsFound).toBe(2);
+  });
+
+  it('reports pages without headers', () => {
+    const pages = ['Name Age Person 1 20', 'Person 2 21', 'Person 3 22'];
+    expect(checkReportText(pages, ROWS, HEADERS).issues).toEqual([
+      { kind: 'missing-headers', message: 'Column headers missing on 2 of 3 pages (page 2, 3)' }
+    ]);
+  });
+
+  it('reports a page count outside the expected range', () => {
+    const pages = ['Name Age Person 1 20 Person 2 21 Person 3 22'];
+    expect(checkReportText(pages, ROWS, HEADERS, { min: 2, max: 3 }).issues).toEqual([
+      { kind: 'page-count', message: 'Expected 2-3 pages, found 1' }
+    ]);
+  });
+
+  it('skips empty cells', () => {
+    expect(checkReportText(['Name Age Person 1'], [['Person 1', '']], HEADERS).issues).toEqual([]);
+  });
+});
+
+// Every column type, with a paragraph long enough to make some rows taller than a page
+const ALL_TYPES_SCHEMA: DatasetSchema = {
+  columns: [
+    { header: 'Имя', type: 'text', width: 20 },
+    { header: 'Qty', type: 'integer', width: 20 },
+    { header: 'Rate', type: 'decimal', width: 20 },
+    { header: 'Price', type: 'currency', width: 20 },
+    { header: 'When', type: 'date', width: 20 },
+    { header: 'Ok', type: 'boolean', width: 10 },
+    { header: 'Notes', type: 'paragraph', width: 40 }
+  ],
+  seed: 7
+};
+
+// Typst loads its compiler from a CDN, so it is left to the browser
+const ENGINES = ['pdflib', 'pdfmake', 'pdfme'].map(id => getEngine(id) as PdfEngine);
+
+describe.each(ENGINES)('$label output', engine => {
+  // Node has no workers that load the generators, so they run in this process
+  const verify = (rowCount: number, schema?: DatasetSchema) => (
+    verifyEngine(engine, rowCount, undefined, { execution: 'main-thread', schema })
+  );
+
+  it.each([1, 34, 35, 73, 1000])('has every row of the default report with %i rows on the expected pages', async rowCount => {
+    const result = await verify(rowCount);
+    expect(result.issues).toEqual([]);
+    expect(result.rowsFound).toBe(rowCount);
+  });
+
+  it('has every row of synthetic data', async () => {
+    const result = await verify(200, { columns: ALL_TYPES_SCHEMA.columns.slice(0, 6), seed: 42 });
+    expect(result.issues).toEqual([]);
+  });
+
+  it('has every row of a table with non-Latin headers and paragraphs taller than a page', async () => {
+    const result = await verify(40, ALL_TYPES_SCHEMA);
+    expect(result.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Correctness checks that parse an engine's PDF and compare its text with the data it was given
+ */
+import { EngineOptionValues, getDefaultOptions, PageRange, PdfEngine } from '../engines/types';
+import { columnHeaders, DataRow, DEFAULT_SCHEMA, generateRows, sameSchema } from '../generators/dataset';
+import { generatePdf, GenerateSettings } from './pdfService';
+import { extractPageTexts } from './pdfText';
+
+export type VerificationIssueKind = 'missing-rows' | 'missing-headers' | 'page-count';
+
+export const VERIFICATION_ISSUE_LABELS: Record<VerificationIssueKind, string> = {
+  'missing-rows': 'Missing rows',
+  'missing-headers': 'Missing headers',
+  'page-count': 'Page count'
+};
+
+export interface VerificationIssue {
+  kind: VerificationIssueKind;
+  message: string;
+}
+
+export interface VerificationResult {
+  engineId: string;
+  rowCount: number;
+  pageCount: number;
+  // Engines only know their page count for the default schema; other tables skip that check
+  expectedPages?: PageRange;
+  // Rows whose every cell was found verbatim and in order
+  rowsFound: number;
+  issues: VerificationIssue[];
+}
+
+// Most row or page numbers listed in a single issue message
+const MAX_LISTED = 5;
+
+// Escape text for use inside a regular expression
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Match the characters of a cell, allowing line breaks anywhere since engines wrap long cells
+function cellPattern(cell: string): string {
+  return Array.from(cell.replace(/\s+/g, '')).map(escapeRegExp).join('\\s*');
+}
+
+// Match a sequence of cells separated by any whitespace, standing as whole words; empty cells leave no text
+function cellSequencePattern(cells: string[], flags?: string): RegExp {
+  const patterns = cells.filter(cell => cell.trim()).map(cellPattern);
+  return new RegExp(`(?<!\\S)${patterns.join('\\s+')}(?!\\S)`, flags);
+}
+
+// List the first few numbers of a set, noting how many more there are
+function listNumbers(numbers: number[]): string {
+  const listed = numbers.slice(0, MAX_LISTED).join(', ');
+  return numbers.length > MAX_LISTED ? `${listed} and ${numbers.length - MAX_LISTED} more` : listed;
+}
+
+// Describe a page range for messages
+function formatPageRange(range: PageRange): string {
+  return range.min === range.max ? `${range.min}` : `${range.min}-${range.max}`;
+}
+
+/**
+ * Check the text of a report against the rows it should contain
+ *
+ * Every row must appear with its cells in column order, rows must follow each
+ * other in data order, every page must carry the column headers and the page
+ * count must fall within the expected range, when one is given.
+ * @param pageTexts Text of each page, as returned by extractPageTexts
+ * @param rows Rows the report was generated from
+ * @param headers Column headers of the report
+ * @param expectedPages Page counts the report may have
+ * @returns The problems found, empty if the report is correct, and the number of rows found
+ */
+export function checkReportText(
+  pageTexts: string[],
+  rows: DataRow[],
+  headers: string[],
+  expectedPages?: PageRange
+): { issues: VerificationIssue[]; rowsFound: number } {
+  const issues: VerificationIssue[] = [];
+
+  if (expectedPages && (pageTexts.length < expectedPages.min || pageTexts.length > expectedPages.max)) {
+    issues.push({
+      kind: 'page-count',
+      message: `Expected ${formatPageRange(expectedPages)} pages, found ${pageTexts.length}`
+    });
+  }
+
+  const headerPattern = cellSequencePattern(headers);
+  const pagesWithoutHeaders = pageTexts
+    .map((text, index) => (headerPattern.test(text) ? 0 : index + 1))
+    .filter(page => page > 0);
+  if (pagesWithoutHeaders.length > 0) {
+    issues.push({
+      kind: 'missing-headers',
+      message: `Column headers missing on ${pagesWithoutHeaders.length} of ${pageTexts.length} pages (page ${listNumbers(pagesWithoutHeaders)})`
+    });
+  }
+
+  // Rows are searched for from where the previous one ended, so they must also be in order; the headers
+  // repeated on each page are left out, as they split a row that continues from the page before
+  const text = pageTexts.map(pageText => pageText.replace(headerPattern, ' ')).join(' ');
+  const missingRows: number[] = [];
+  let cursor = 0;
+
+  rows.forEach((row, index) => {
+    const pattern = cellSequencePattern(row, 'g');
+    pattern.lastIndex = cursor;
+    const match = pattern.exec(text);
+
+    if (match) {
+      cursor = match.index + match[0].length;
+    } else {
+      missingRows.push(index + 1);
+    }
+  });
+
+  if (missingRows.length > 0) {
+    issues.push({
+      kind: 'missing-rows',
+      message: `${missingRows.length} of ${rows.length} rows not found verbatim and in order (row ${listNumbers(missingRows)})`
+    });
+  }
+
+  return { issues, rowsFound: rows.length - missingRows.length };
+}
+
+/**
+ * Generate a report with an engine and verify its content
+ * @param engine Engine to verify
+ * @param rowCount Number of rows to generate
+ * @param options Engine-specific options, defaulting to the engine's defaults
+ * @param settings Where and how to run the generation, including the schema of the table
+ */
+export async function verifyEngine(
+  engine: PdfEngine,
+  rowCount: number,
+  options: EngineOptionValues = getDefaultOptions(engine),
+  settings: GenerateSettings = {}
+): Promise<VerificationResult> {
+  const { pdf } = await generatePdf(engine, rowCount, options, settings);
+  const pageTexts = await extractPageTexts(new Uint8Array(await pdf.arrayBuffer()));
+  const schema = settings.schema ?? DEFAULT_SCHEMA;
+  const expectedPages = sameSchema(schema, DEFAULT_SCHEMA) ? engine.expectedPages(rowCount, options) : undefined;
+  const { issues, rowsFound } = checkReportText(pageTexts, generateRows(schema, rowCount), columnHeaders(schema), expectedPages);
+
+  return {
+    engineId: engine.id,
+    rowCount,
+    pageCount: pageTexts.length,
+    expectedPages,
+    rowsFound,
+    issues
+  };
+}
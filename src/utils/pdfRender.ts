@@ -0,0 +1,44 @@
+/**
+ * Rasterization of PDF pages in the app using pdf.js
+ */
+import { getDocument } from './pdfjs';
+
+export interface RenderedPages {
+  // Rendered pages, in order, up to the requested limit
+  pages: ImageData[];
+  // Pages in the whole document
+  pageCount: number;
+}
+
+/**
+ * Render the first pages of a PDF to pixels
+ * @param pdf Bytes of the PDF
+ * @param scale Output pixels per PDF point
+ * @param maxPages Most pages to render
+ * @returns The rendered pages and the document's page count
+ */
+export async function renderPages(pdf: Uint8Array, scale: number, maxPages: number): Promise<RenderedPages> {
+  // pdf.js takes ownership of the buffer it is given, so parse a copy
+  const pdfDocument = await getDocument({ data: pdf.slice(), isEvalSupported: false }).promise;
+
+  try {
+    const pages: ImageData[] = [];
+
+    for (let pageNumber = 1; pageNumber <= Math.min(pdfDocument.numPages, maxPages); pageNumber++) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const canvasContext = canvas.getContext('2d')!;
+
+      await page.render({ canvasContext, viewport }).promise;
+      pages.push(canvasContext.getImageData(0, 0, canvas.width, canvas.height));
+      page.cleanup();
+    }
+
+    return { pages, pageCount: pdfDocument.numPages };
+  } finally {
+    await pdfDocument.destroy();
+  }
+}
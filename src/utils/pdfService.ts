@@ -0,0 +1,383 @@
+/**
+ * Service to handle PDF generation for any registered engine in Web Workers or on the main thread
+ */
+import type { EngineOptionValues, PdfEngine, PdfGenerationResult } from '../engines/types';
+import { DatasetSchema, DEFAULT_SCHEMA } from '../generators/dataset';
+import { createPhaseTimer } from '../workers/protocol';
+import type { GenerateRequest, PdfGenerator, PdfTransport, WorkerResponse } from '../workers/protocol';
+import { startBlockingProbe } from './blockingProbe';
+import { createWorkerPool, WorkerPool } from './workerPool';
+
+// 'cold' starts a fresh worker for every generation; 'warm' reuses pooled workers
+export type StartMode = 'cold' | 'warm';
+
+// Where the generator runs; 'main-thread' is the baseline for what a worker buys
+export type ExecutionMode = 'worker' | 'main-thread';
+
+export interface GenerateSettings {
+  execution?: ExecutionMode;
+  startMode?: StartMode;
+  // Transfer raw bytes (default) or a base64 string, to measure the cost of encoding
+  transport?: PdfTransport;
+  // Aborting terminates the worker and rejects with the signal's reason
+  signal?: AbortSignal;
+  // Limit for this generation; exceeding it rejects with a 'TimeoutError' DOMException
+  timeoutMs?: number;
+  // Columns of the generated table; the default report when omitted
+  schema?: DatasetSchema;
+}
+
+// Persistent workers kept per engine id
+const workerPools = new Map<string, WorkerPool>();
+
+// Generators loaded into the main thread, kept per engine id
+const loadedGenerators = new Map<string, Promise<PdfGenerator>>();
+
+/**
+ * Get the engine's worker pool, creating it on first use
+ */
+function getPool(engine: PdfEngine): WorkerPool {
+  let pool = workerPools.get(engine.id);
+
+  if (!pool) {
+    pool = createWorkerPool(engine.createWorker, engine.capabilities.workerPoolSize);
+    workerPools.set(engine.id, pool);
+  }
+
+  return pool;
+}
+
+/**
+ * Generate a PDF with the specified number of rows using the given engine
+ *
+ * Main-thread blocking time is measured in both execution modes, so the
+ * cost a worker avoids (and the decoding it adds) is visible.
+ * @param engine Engine to generate the PDF with
+ * @param rowCount Number of data rows to include in the PDF
+ * @param options Values for the engine's extra options
+ * @param settings How the generation is run; a warm worker is the default
+ * @returns Promise that resolves to an object containing the PDF data and performance metrics
+ */
+export async function generatePdf(
+  engine: PdfEngine,
+  rowCount: number,
+  options: EngineOptionValues = {},
+  settings: GenerateSettings = {}
+): Promise<PdfGenerationResult> {
+  const signal = combineSignals(settings.signal, settings.timeoutMs);
+  const request: GenerateRequest = {
+    rowCount,
+    schema: settings.schema ?? DEFAULT_SCHEMA,
+    options,
+    transport: settings.transport ?? 'binary'
+  };
+  const probe = startBlockingProbe();
+  let result: PdfGenerationResult;
+
+  try {
+    result = settings.execution === 'main-thread'
+      ? await generateOnMainThread(engine, request, signal)
+      : await generateInWorker(engine, request, settings.startMode ?? 'warm', signal);
+  } catch (error) {
+    probe.stop();
+    throw error;
+  }
+
+  return { ...result, metrics: { ...result.metrics, mainThreadBlockingTime: probe.stop() } };
+}
+
+/**
+ * Run the engine's generator in a worker and collect its result
+ */
+function generateInWorker(
+  engine: PdfEngine,
+  request: GenerateRequest,
+  startMode: StartMode,
+  signal?: AbortSignal
+): Promise<PdfGenerationResult> {
+  const workerStartTime = performance.now();
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const pool = getPool(engine);
+    const { worker, fresh } = startMode === 'warm'
+      ? pool.acquire()
+      : { worker: engine.createWorker(), fresh: true };
+
+    // A stopped worker may be in the middle of a generation, so it is never reused
+    const handleAbort = () => {
+      pool.discard(worker);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    // Handle messages from the worker
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      signal?.removeEventListener('abort', handleAbort);
+
+      const receivedTime = performance.now();
+      const receivedAt = performance.timeOrigin + receivedTime;
+      const response = event.data;
+
+      if (startMode === 'warm') {
+        pool.release(worker);
+      } else {
+        worker.terminate();
+      }
+
+      if (response.success) {
+        const { postedAt, ...workerMetrics } = response.metrics;
+        // Only the base64 transport has to be decoded back on the main thread
+        const pdfBytes = typeof response.data === 'string' ? base64ToBytes(response.data) : response.data;
+        const workerEndTime = performance.now();
+
+        resolve({
+          pdf: new Blob([pdfBytes], { type: 'application/pdf' }),
+          metrics: {
+            ...workerMetrics,
+            transferTime: Math.max(0, receivedAt - postedAt),
+            decodingTime: workerEndTime - receivedTime,
+            coldStart: fresh,
+            workerStartTime,
+            workerEndTime,
+            totalProcessTime: workerEndTime - workerStartTime
+          }
+        });
+      } else {
+        reject(new Error(response.error || `PDF generation with ${engine.label} failed`));
+      }
+    };
+
+    // A worker that raised an uncaught error is never reused
+    worker.onerror = (error) => {
+      signal?.removeEventListener('abort', handleAbort);
+      pool.discard(worker);
+      reject(new Error(`${engine.label} worker error: ${error.message}`));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Run the engine's generator directly on the main thread
+ *
+ * The generator's module is loaded on first use, which is timed as init.
+ * Synchronous work cannot be interrupted, so an abort only takes effect
+ * once the generator yields.
+ */
+async function generateOnMainThread(
+  engine: PdfEngine,
+  request: GenerateRequest,
+  signal?: AbortSignal
+): Promise<PdfGenerationResult> {
+  signal?.throwIfAborted();
+
+  const startTime = performance.now();
+  const timer = createPhaseTimer();
+  const coldStart = !loadedGenerators.has(engine.id);
+
+  if (coldStart) {
+    const loading = engine.loadGenerator();
+    loadedGenerators.set(engine.id, loading);
+    // Allow a later run to retry a failed load
+    loading.catch(() => loadedGenerators.delete(engine.id));
+  }
+
+  const loading = loadedGenerators.get(engine.id)!;
+  const buildPdf = coldStart ? await timer.timeAsync('init', () => loading) : await loading;
+
+  const buildStartTime = performance.now();
+  const pdfBytes = await raceAbort(buildPdf(request, timer), signal);
+  const endTime = performance.now();
+
+  return {
+    pdf: new Blob([pdfBytes], { type: 'application/pdf' }),
+    metrics: {
+      dataGenerationTime: timer.phases.dataGeneration ?? 0,
+      totalTime: endTime - buildStartTime,
+      phases: timer.phases,
+      coldStart,
+      workerStartTime: startTime,
+      workerEndTime: endTime,
+      totalProcessTime: endTime - startTime
+    }
+  };
+}
+
+/**
+ * Reject as soon as the signal aborts, without waiting for the work itself
+ */
+function raceAbort<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return work;
+  }
+
+  return new Promise((resolve, reject) => {
+    const handleAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', handleAbort, { once: true });
+    work
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', handleAbort));
+  });
+}
+
+/**
+ * Merge a caller's signal with an optional timeout into a single signal
+ */
+function combineSignals(signal?: AbortSignal, timeoutMs?: number): AbortSignal | undefined {
+  const signals = [signal, timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined]
+    .filter((s): s is AbortSignal => s !== undefined);
+
+  return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+}
+
+/**
+ * Keep more or fewer idle workers for an engine, for example while running concurrent generations
+ * @param engine Engine whose pool should be resized
+ * @param size Maximum number of idle workers; defaults to the engine's declared pool size
+ */
+export function setWorkerPoolSize(engine: PdfEngine, size = engine.capabilities.workerPoolSize): void {
+  getPool(engine).setMaxIdle(size);
+}
+
+/**
+ * Terminate an engine's idle workers so its next warm generation starts cold
+ * @param engine Engine whose pool should be emptied
+ */
+export function resetWorkerPool(engine: PdfEngine): void {
+  workerPools.get(engine.id)?.clear();
+}
+
+/**
+ * Cleanup all worker pools - call this when the component unmounts
+ */
+export function cleanupWorkerPools(): void {
+  workerPools.forEach(pool => pool.clear());
+  workerPools.clear();
+}
+
+/**
+ * Decode base64 PDF data to bytes
+ * @param base64Data PDF data as base64 string
+ */
+function base64ToBytes(base64Data: string): Uint8Array {
+  const byteCharacters = atob(base64Data);
+  const byteArray = new Uint8Array(byteCharacters.length);
+
+  for (let i = 0; i < byteCharacters.length; i++) {
+    byteArray[i] = byteCharacters.charCodeAt(i);
+  }
+
+  return byteArray;
+}
+
+/**
+ * Create an object URL for displaying the PDF inline
+ * @param pdf Generated PDF
+ * @returns Blob URL; revoke it with URL.revokeObjectURL when no longer needed
+ */
+export function createPdfBlobUrl(pdf: Blob): string {
+  return URL.createObjectURL(pdf);
+}
+
+/**
+ * Open the generated PDF in a new tab
+ * @param pdf Generated PDF
+ */
+export function openPdfInNewTab(pdf: Blob): void {
+  // Create a URL for the blob for better browser compatibility
+  const blobUrl = createPdfBlobUrl(pdf);
+
+  // Open in a new tab and ensure content is displayed correctly
+  const newWindow = window.open();
+  if (newWindow) {
+    newWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>PDF Viewer</title>
+          <style>
+            body, html {
+              margin: 0;
+              padding: 0;
+              height: 100%;
+              overflow: hidden;
+            }
+            #pdf-container {
+              width: 100%;
+              height: 100vh;
+              display: block;
+            }
+          </style>
+        </head>
+        <body>
+          <embed id="pdf-container" src="${blobUrl}" type="application/pdf" />
+        </body>
+      </html>
+    `);
+    newWindow.document.close();
+
+    // Clean up the blob URL when the window is closed
+    newWindow.onbeforeunload = () => {
+      URL.revokeObjectURL(blobUrl);
+    };
+  } else {
+    // Fallback in case window.open() is blocked
+    const newTab = window.open(blobUrl, '_blank');
+    if (!newTab) {
+      alert('Please allow popups for this website to view the PDF.');
+    }
+  }
+}
+
+/**
+ * Download the generated PDF
+ * @param pdf Generated PDF
+ * @param filename Optional filename (default: generated-pdf.pdf)
+ */
+export function downloadPdf(pdf: Blob, filename = 'generated-pdf.pdf'): void {
+  const blobUrl = createPdfBlobUrl(pdf);
+  const downloadLink = document.createElement('a');
+
+  downloadLink.href = blobUrl;
+  downloadLink.download = filename;
+  document.body.appendChild(downloadLink); // Required for Firefox
+  downloadLink.click();
+  document.body.removeChild(downloadLink); // Clean up
+  URL.revokeObjectURL(blobUrl);
+}
+
+/**
+ * Format a time duration in milliseconds to a human-readable string
+ * @param ms Time in milliseconds
+ * @returns Formatted time string
+ */
+export function formatTime(ms: number): string {
+  if (ms < 1) {
+    return `${(ms * 1000).toFixed(2)}μs`;
+  }
+  if (ms < 1000) {
+    return `${ms.toFixed(2)}ms`;
+  }
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+/**
+ * Format a size in bytes to a human-readable string
+ * @param bytes Size in bytes
+ * @returns Formatted size string
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
@@ -0,0 +1,157 @@
+/**
+ * Structural analysis of generated PDFs using pdf-lib's parser
+ */
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFObject,
+  PDFRawStream,
+  PDFRef
+} from 'pdf-lib';
+
+export interface PdfFontInfo {
+  // BaseFont name, including any subset prefix
+  name: string;
+  // Font dictionary subtype such as Type1, TrueType or Type0
+  subtype: string;
+  // Whether the font program is embedded rather than referenced by name
+  embedded: boolean;
+}
+
+export interface PdfStreamStats {
+  count: number;
+  // Streams compressed with FlateDecode
+  deflated: number;
+  // Encoded size of every stream
+  bytes: number;
+  // Encoded size of the deflated streams, and their size once inflated
+  deflatedBytes: number;
+  inflatedBytes: number;
+}
+
+export interface PdfStructure {
+  // Size of the file in bytes
+  size: number;
+  // Version from the file header, such as "1.7"
+  version: string;
+  pageCount: number;
+  // Indirect objects, counting those packed in object streams individually
+  objectCount: number;
+  // Compressed streams that pack other objects
+  objectStreamCount: number;
+  // Whether the cross-reference table is written as a compressed stream
+  xrefStream: boolean;
+  fonts: PdfFontInfo[];
+  // Every stream in the file, and the page content streams among them
+  streams: PdfStreamStats;
+  contentStreams: PdfStreamStats;
+}
+
+const FONT_FILE_KEYS = ['FontFile', 'FontFile2', 'FontFile3'].map(key => PDFName.of(key));
+
+// Follow a reference to the object it points to
+function resolve(context: PDFContext, object: PDFObject | undefined): PDFObject | undefined {
+  return object instanceof PDFRef ? context.lookup(object) : object;
+}
+
+// Read a name entry without its leading slash
+function nameOf(dict: PDFDict, key: string): string {
+  const value = dict.get(PDFName.of(key));
+  return value instanceof PDFName ? value.decodeText() : '';
+}
+
+// Whether a stream's filters are exactly FlateDecode, so pdf-lib can inflate it
+function isDeflated(stream: PDFRawStream): boolean {
+  const filter = stream.dict.get(PDFName.of('Filter'));
+  if (filter instanceof PDFArray) {
+    return filter.size() === 1 && filter.get(0) === PDFName.of('FlateDecode');
+  }
+  return filter === PDFName.of('FlateDecode');
+}
+
+// Tally the sizes and compression of a set of streams
+function summarizeStreams(streams: PDFRawStream[]): PdfStreamStats {
+  const stats: PdfStreamStats = { count: streams.length, deflated: 0, bytes: 0, deflatedBytes: 0, inflatedBytes: 0 };
+
+  for (const stream of streams) {
+    stats.bytes += stream.contents.length;
+
+    if (isDeflated(stream)) {
+      stats.deflated++;
+      stats.deflatedBytes += stream.contents.length;
+      stats.inflatedBytes += decodePDFRawStream(stream).decode().length;
+    }
+  }
+
+  return stats;
+}
+
+// Describe a top-level font; composite fonts keep their program in the descendant font
+function describeFont(context: PDFContext, font: PDFDict): PdfFontInfo {
+  let fontWithProgram = font;
+  const descendants = resolve(context, font.get(PDFName.of('DescendantFonts')));
+  if (descendants instanceof PDFArray) {
+    const descendant = resolve(context, descendants.get(0));
+    if (descendant instanceof PDFDict) {
+      fontWithProgram = descendant;
+    }
+  }
+
+  const descriptor = resolve(context, fontWithProgram.get(PDFName.of('FontDescriptor')));
+
+  return {
+    name: nameOf(font, 'BaseFont'),
+    subtype: nameOf(font, 'Subtype'),
+    embedded: descriptor instanceof PDFDict && FONT_FILE_KEYS.some(key => descriptor.has(key))
+  };
+}
+
+// Page content streams, which may be a single stream or an array of them
+function getContentStreams(document: PDFDocument): PDFRawStream[] {
+  const { context } = document;
+
+  return document.getPages().flatMap(page => {
+    const contents = resolve(context, page.node.get(PDFName.of('Contents')));
+    const entries = contents instanceof PDFArray ? contents.asArray() : [contents];
+    return entries
+      .map(entry => resolve(context, entry))
+      .filter((entry): entry is PDFRawStream => entry instanceof PDFRawStream);
+  });
+}
+
+/**
+ * Analyze the structure of a PDF
+ * @param pdf Bytes of the PDF
+ * @returns Size, page and object counts, fonts and stream compression of the file
+ */
+export async function analyzePdf(pdf: Uint8Array): Promise<PdfStructure> {
+  const document = await PDFDocument.load(pdf, { updateMetadata: false, ignoreEncryption: true });
+  const { context } = document;
+  const objects = context.enumerateIndirectObjects().map(([, object]) => object);
+
+  // Object and cross-reference streams only show in the raw bytes, as pdf-lib unpacks them
+  const latin1 = new TextDecoder('latin1').decode(pdf);
+  const header = /^%PDF-(\d+\.\d+)/.exec(latin1);
+
+  const fonts = objects
+    .filter((object): object is PDFDict => object instanceof PDFDict && nameOf(object, 'Type') === 'Font')
+    // Descendant fonts are described as part of the composite font that uses them
+    .filter(font => !nameOf(font, 'Subtype').startsWith('CIDFontType'))
+    .map(font => describeFont(context, font));
+
+  return {
+    size: pdf.length,
+    version: header?.[1] ?? '',
+    pageCount: document.getPageCount(),
+    objectCount: objects.length,
+    objectStreamCount: latin1.match(/\/Type\s*\/ObjStm\b/g)?.length ?? 0,
+    xrefStream: /\/Type\s*\/XRef\b/.test(latin1),
+    fonts,
+    streams: summarizeStreams(objects.filter((object): object is PDFRawStream => object instanceof PDFRawStream)),
+    contentStreams: summarizeStreams(getContentStreams(document))
+  };
+}
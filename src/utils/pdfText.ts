@@ -0,0 +1,40 @@
+/**
+ * Text extraction from generated PDFs using pdf.js
+ */
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { getDocument, VerbosityLevel } from './pdfjs';
+
+/**
+ * Extract the text of every page in content-stream order
+ *
+ * Text runs are separated by whitespace, so a cell split into several runs
+ * by its engine reads the same as one drawn in a single run.
+ * @param pdf Bytes of the PDF
+ * @returns One string per page
+ */
+export async function extractPageTexts(pdf: Uint8Array): Promise<string[]> {
+  // pdf.js takes ownership of the buffer it is given, so parse a copy. Extracting text needs no
+  // font data, so the warnings pdf.js gives about fonts it cannot load are left out
+  const pdfDocument = await getDocument({
+    data: pdf.slice(),
+    isEvalSupported: false,
+    verbosity: VerbosityLevel.ERRORS
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const runs = content.items
+        .filter((item): item is TextItem => 'str' in item)
+        .map(item => item.str);
+      pages.push(runs.join(' ').replace(/\s+/g, ' ').trim());
+    }
+
+    return pages;
+  } finally {
+    await pdfDocument.destroy();
+  }
+}
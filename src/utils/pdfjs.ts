@@ -0,0 +1,10 @@
+/**
+ * pdf.js set up to parse documents in the calling thread
+ */
+import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.mjs';
+
+// pdf.js parses in the calling thread when it finds its worker module here, so
+// it needs no worker URL in either the browser or Node
+(globalThis as { pdfjsWorker?: typeof pdfjsWorker }).pdfjsWorker = pdfjsWorker;
+
+export { getDocument, VerbosityLevel } from 'pdfjs-dist';
@@ -0,0 +1,29 @@
+/**
+ * Deterministic pseudo-random number generation
+ */
+
+// Returns a float in [0, 1)
+export type RandomSource = () => number;
+
+/**
+ * Create a seeded generator (mulberry32) so results can be reproduced exactly
+ * @param seed 32-bit integer seed
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a new seed for createRandom
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
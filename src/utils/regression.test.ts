@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { BenchmarkConfig, BenchmarkMeasurement, summarizePhases } from './benchmarkRunner';
+import { PhaseTimings } from './metrics';
+import { compareMeasurements } from './regression';
+
+// A measurement whose runs all take the given total times, with the other phases fixed
+function measurement(engineId: string, totals: number[], config: Partial<BenchmarkConfig> = {}): BenchmarkMeasurement {
+  const samples: PhaseTimings[] = totals.map(total => ({
+    dataGeneration: 5,
+    pdfCreation: total - 10,
+    workerOverhead: 5,
+    total,
+    mainThreadBlocking: 0
+  }));
+
+  return {
+    engineId,
+    config: {
+      rowCount: 100,
+      options: {},
+      warmupRuns: 1,
+      measuredRuns: totals.length,
+      execution: 'worker',
+      startMode: 'cold',
+      transport: 'binary',
+      ...config
+    },
+    samples,
+    summary: summarizePhases(samples),
+    firstRun: samples[0],
+    pdfSize: 1000
+  };
+}
+
+// Verdict for the total time of the only compared measurement
+function totalVerdict(baseline: BenchmarkMeasurement, candidate: BenchmarkMeasurement, thresholdPercent = 5) {
+  const [diff] = compareMeasurements([baseline], [candidate], thresholdPercent).diffs;
+  return diff.phases.find(phase => phase.phase === 'total');
+}
+
+describe('compareMeasurements', () => {
+  it('reports a slow-down beyond the threshold and the noise as a regression', () => {
+    const total = totalVerdict(
+      measurement('pdflib', [100, 101, 99, 100, 102]),
+      measurement('pdflib', [120, 121, 119, 120, 122])
+    );
+    expect(total).toMatchObject({ baseline: 100, candidate: 120, delta: 20, percentChange: 20, verdict: 'regression' });
+    expect(total?.significance.verdict).toBe('slower');
+  });
+
+  it('reports a speed-up beyond the threshold as an improvement', () => {
+    const total = totalVerdict(measurement('pdflib', [100, 101, 99]), measurement('pdflib', [80, 81, 79]));
+    expect(total?.verdict).toBe('improvement');
+  });
+
+  it('treats a change within the run-to-run spread as noise', () => {
+    const total = totalVerdict(measurement('pdflib', [80, 100, 120]), measurement('pdflib', [90, 110, 130]));
+    expect(total?.verdict).toBe('noise');
+  });
+
+  it('leaves a change below the threshold unchanged', () => {
+    const total = totalVerdict(measurement('pdflib', [100, 100, 100]), measurement('pdflib', [103, 103, 103]));
+    expect(total).toMatchObject({ noiseBand: 0, verdict: 'unchanged' });
+  });
+
+  it('lists measurements found in only one set', () => {
+    const report = compareMeasurements(
+      [measurement('pdflib', [100]), measurement('pdfmake', [100])],
+      [measurement('pdflib', [100]), measurement('pdfme', [100])],
+      5
+    );
+    expect(report.diffs.map(diff => diff.engineId)).toEqual(['pdflib']);
+    expect(report.onlyInBaseline).toEqual(['pdfmake@100']);
+    expect(report.onlyInCandidate).toEqual(['pdfme@100']);
+  });
+
+  it('does not compare measurements run with different settings', () => {
+    const report = compareMeasurements(
+      [measurement('pdflib', [100])],
+      [measurement('pdflib', [100], {
+        execution: 'main-thread',
+        transport: 'base64',
+        schema: { columns: [{ header: 'Name', type: 'text', width: 1 }], seed: 3 }
+      })],
+      5
+    );
+    expect(report.diffs).toEqual([]);
+    expect(report.configMismatches).toEqual([{ key: 'pdflib@100', settings: ['execution', 'transport', 'columns', 'seed'] }]);
+  });
+
+  it('sorts the compared measurements by engine and row count', () => {
+    const report = compareMeasurements(
+      [measurement('pdfmake', [100]), measurement('pdflib', [100], { rowCount: 1000 }), measurement('pdflib', [100])],
+      [measurement('pdflib', [100], { rowCount: 1000 }), measurement('pdfmake', [100]), measurement('pdflib', [100])],
+      5
+    );
+    expect(report.diffs.map(diff => `${diff.engineId}@${diff.rowCount}`)).toEqual(['pdflib@100', 'pdflib@1000', 'pdfmake@100']);
+  });
+});
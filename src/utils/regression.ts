@@ -0,0 +1,170 @@
+/**
+ * Per-engine, per-phase comparison of two sets of benchmark measurements
+ */
+import { DEFAULT_SCHEMA, sameSchema } from '../generators/dataset';
+import type { BenchmarkMeasurement } from './benchmarkRunner';
+import { Phase, PHASES } from './metrics';
+import { compareSamples, SignificanceResult } from './significance';
+
+export type RegressionVerdict = 'regression' | 'improvement' | 'unchanged' | 'noise';
+
+export interface PhaseDiff {
+  phase: Phase;
+  baseline: number;
+  candidate: number;
+  // Candidate median minus baseline median, in milliseconds
+  delta: number;
+  // Relative change in percent; positive means slower
+  percentChange: number;
+  // Half-width of the band within which a difference is treated as noise
+  noiseBand: number;
+  verdict: RegressionVerdict;
+  // Mann–Whitney U test of the candidate's samples against the baseline's
+  significance: SignificanceResult;
+}
+
+export interface EngineDiff {
+  engineId: string;
+  rowCount: number;
+  phases: PhaseDiff[];
+}
+
+export interface RegressionReport {
+  thresholdPercent: number;
+  diffs: EngineDiff[];
+  // Measurements present in only one of the two sets, as "engine@rows" keys
+  onlyInBaseline: string[];
+  onlyInCandidate: string[];
+  // Measurements present in both sets but run with different settings, so not compared
+  configMismatches: ConfigMismatch[];
+}
+
+export interface ConfigMismatch {
+  // "engine@rows" key of the measurements
+  key: string;
+  // Names of the settings that differ
+  settings: string[];
+}
+
+// Measurements are matched on engine and row count
+function matchKey(measurement: BenchmarkMeasurement): string {
+  return `${measurement.engineId}@${measurement.config.rowCount}`;
+}
+
+// Settings besides engine and row count that change what a measurement times
+function differingSettings(baseline: BenchmarkMeasurement, candidate: BenchmarkMeasurement): string[] {
+  const before = baseline.config;
+  const after = candidate.config;
+  const settings: string[] = [];
+
+  if (before.execution !== after.execution) {
+    settings.push('execution');
+  }
+  if (before.startMode !== after.startMode) {
+    settings.push('start mode');
+  }
+  if (before.transport !== after.transport) {
+    settings.push('transport');
+  }
+  // The seed is reported on its own, so only the columns are compared here
+  const beforeColumns = (before.schema ?? DEFAULT_SCHEMA).columns;
+  const afterColumns = (after.schema ?? DEFAULT_SCHEMA).columns;
+  if (!sameSchema({ columns: beforeColumns }, { columns: afterColumns })) {
+    settings.push('columns');
+  }
+  if (before.schema?.seed !== after.schema?.seed) {
+    settings.push('seed');
+  }
+
+  return settings;
+}
+
+/**
+ * Width of the noise band around a difference of medians
+ *
+ * Twice the standard error of the difference, so a change smaller than the
+ * run-to-run spread of either set is not reported. Zero when both sides have
+ * a single sample, since there is no variance to judge from.
+ */
+function noiseBand(baseline: BenchmarkMeasurement, candidate: BenchmarkMeasurement, phase: Phase): number {
+  const a = baseline.summary[phase];
+  const b = candidate.summary[phase];
+  return 2 * Math.sqrt(a.stdDev ** 2 / a.count + b.stdDev ** 2 / b.count);
+}
+
+/**
+ * Compare a candidate set of measurements against a baseline set
+ *
+ * Measurements of the same engine and row count are only compared when they
+ * were run with the same settings; the others are listed as mismatches.
+ * @param baseline Measurements from the earlier run
+ * @param candidate Measurements from the run being checked
+ * @param thresholdPercent Slow-down (in percent) above which a change is a regression
+ */
+export function compareMeasurements(
+  baseline: BenchmarkMeasurement[],
+  candidate: BenchmarkMeasurement[],
+  thresholdPercent: number
+): RegressionReport {
+  const baselineByKey = new Map(baseline.map(m => [matchKey(m), m]));
+  const candidateByKey = new Map(candidate.map(m => [matchKey(m), m]));
+  const diffs: EngineDiff[] = [];
+  const configMismatches: ConfigMismatch[] = [];
+
+  for (const [key, after] of candidateByKey) {
+    const before = baselineByKey.get(key);
+    if (!before) {
+      continue;
+    }
+
+    const settings = differingSettings(before, after);
+    if (settings.length > 0) {
+      configMismatches.push({ key, settings });
+      continue;
+    }
+
+    diffs.push({
+      engineId: after.engineId,
+      rowCount: after.config.rowCount,
+      // Results saved by older versions may lack phases added since
+      phases: PHASES.filter(({ key }) => before.summary[key] && after.summary[key]).map(({ key: phase }) => {
+        const baselineMedian = before.summary[phase].median;
+        const candidateMedian = after.summary[phase].median;
+        const delta = candidateMedian - baselineMedian;
+        const percentChange = baselineMedian !== 0 ? (delta / Math.abs(baselineMedian)) * 100 : 0;
+        const band = noiseBand(before, after, phase);
+
+        let verdict: RegressionVerdict = 'unchanged';
+        if (Math.abs(delta) <= band) {
+          verdict = 'noise';
+        } else if (percentChange > thresholdPercent) {
+          verdict = 'regression';
+        } else if (percentChange < -thresholdPercent) {
+          verdict = 'improvement';
+        }
+
+        return {
+          phase,
+          baseline: baselineMedian,
+          candidate: candidateMedian,
+          delta,
+          percentChange,
+          noiseBand: band,
+          verdict,
+          significance: compareSamples(
+            after.samples.map(sample => sample[phase]),
+            before.samples.map(sample => sample[phase])
+          )
+        };
+      })
+    });
+  }
+
+  return {
+    thresholdPercent,
+    diffs: diffs.sort((a, b) => a.engineId.localeCompare(b.engineId) || a.rowCount - b.rowCount),
+    onlyInBaseline: [...baselineByKey.keys()].filter(key => !candidateByKey.has(key)),
+    onlyInCandidate: [...candidateByKey.keys()].filter(key => !baselineByKey.has(key)),
+    configMismatches
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Probe for how responsive the page stays while PDFs are being generated
+ */
+import { percentile } from './statistics';
+
+// Frame budget of a 60 Hz display, used to count frames that were skipped
+const FRAME_INTERVAL = 1000 / 60;
+
+// How often a synthetic input is scheduled
+const INPUT_SAMPLE_INTERVAL = 50;
+
+// Inputs handled later than this feel sluggish (the RAIL response budget)
+const INPUT_DELAY_BUDGET = 100;
+
+export interface ResponsivenessMetrics {
+  // Time the probe was running, in milliseconds
+  duration: number;
+  // Tasks reported by the Long Tasks API; absent in browsers without it
+  longTasks?: {
+    count: number;
+    totalTime: number;
+    longest: number;
+  };
+  frames: {
+    rendered: number;
+    // Frames a 60 Hz display would have shown but could not be produced in time
+    dropped: number;
+    longestGap: number;
+  };
+  // How late inputs were handled: synthetic timer samples plus any real input events
+  inputDelay: {
+    samples: number;
+    median: number;
+    p95: number;
+    max: number;
+  };
+}
+
+export interface ResponsivenessProbe {
+  // Stop probing and summarize what was observed
+  stop: () => ResponsivenessMetrics;
+}
+
+// Observe an entry type if the browser supports it
+function observe(type: string, onEntries: (entries: PerformanceEntryList) => void): PerformanceObserver | null {
+  if (typeof PerformanceObserver === 'undefined' || !PerformanceObserver.supportedEntryTypes?.includes(type)) {
+    return null;
+  }
+
+  const observer = new PerformanceObserver(list => onEntries(list.getEntries()));
+  observer.observe({ type, buffered: false });
+  return observer;
+}
+
+/**
+ * Start observing long tasks, animation frames and input delay
+ *
+ * Input delay is sampled by scheduling a timer every 50 ms and recording how
+ * late it fires, which is how long an input arriving then would have waited.
+ * Real input events that happen during the probe are included as well.
+ */
+export function startResponsivenessProbe(): ResponsivenessProbe {
+  const startTime = performance.now();
+  const longTaskDurations: number[] = [];
+  const inputDelays: number[] = [];
+  let renderedFrames = 0;
+  let droppedFrames = 0;
+  let longestFrameGap = 0;
+
+  const longTaskObserver = observe('longtask', entries => {
+    longTaskDurations.push(...entries.map(entry => entry.duration));
+  });
+  const eventObserver = observe('event', entries => {
+    for (const entry of entries as PerformanceEventTiming[]) {
+      inputDelays.push(entry.processingStart - entry.startTime);
+    }
+  });
+
+  let lastFrame = startTime;
+  let frameRequest = requestAnimationFrame(function onFrame(time) {
+    const gap = time - lastFrame;
+
+    renderedFrames++;
+    droppedFrames += Math.max(0, Math.round(gap / FRAME_INTERVAL) - 1);
+    longestFrameGap = Math.max(longestFrameGap, gap);
+    lastFrame = time;
+    frameRequest = requestAnimationFrame(onFrame);
+  });
+
+  let scheduledAt = performance.now() + INPUT_SAMPLE_INTERVAL;
+  const sampleInput = () => {
+    const now = performance.now();
+
+    inputDelays.push(Math.max(0, now - scheduledAt));
+    scheduledAt = now + INPUT_SAMPLE_INTERVAL;
+    inputTimer = setTimeout(sampleInput, INPUT_SAMPLE_INTERVAL);
+  };
+  let inputTimer = setTimeout(sampleInput, INPUT_SAMPLE_INTERVAL);
+
+  return {
+    stop: () => {
+      const endTime = performance.now();
+
+      cancelAnimationFrame(frameRequest);
+      clearTimeout(inputTimer);
+      // Entries for work that just finished may not have been delivered yet
+      if (longTaskObserver) {
+        longTaskDurations.push(...longTaskObserver.takeRecords().map(entry => entry.duration));
+        longTaskObserver.disconnect();
+      }
+      eventObserver?.disconnect();
+
+      // A frame still pending when the probe stops counts up to the stop time
+      const pendingGap = endTime - lastFrame;
+      droppedFrames += Math.max(0, Math.floor(pendingGap / FRAME_INTERVAL) - 1);
+      longestFrameGap = Math.max(longestFrameGap, pendingGap);
+
+      const sortedDelays = [...inputDelays].sort((a, b) => a - b);
+
+      return {
+        duration: endTime - startTime,
+        longTasks: longTaskObserver
+          ? {
+            count: longTaskDurations.length,
+            totalTime: longTaskDurations.reduce((sum, duration) => sum + duration, 0),
+            longest: Math.max(0, ...longTaskDurations)
+          }
+          : undefined,
+        frames: {
+          rendered: renderedFrames,
+          dropped: droppedFrames,
+          longestGap: longestFrameGap
+        },
+        inputDelay: {
+          samples: sortedDelays.length,
+          median: sortedDelays.length > 0 ? percentile(sortedDelays, 50) : 0,
+          p95: sortedDelays.length > 0 ? percentile(sortedDelays, 95) : 0,
+          max: sortedDelays[sortedDelays.length - 1] ?? 0
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Whether the observed behaviour would be noticeable to a user
+ * @param metrics Responsiveness observed during a benchmark
+ */
+export function isJanky(metrics: ResponsivenessMetrics): boolean {
+  return metrics.inputDelay.max > INPUT_DELAY_BUDGET || (metrics.longTasks?.count ?? 0) > 0;
+}
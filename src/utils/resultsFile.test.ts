@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { BenchmarkMeasurement, ComparisonResult, summarizePhases } from './benchmarkRunner';
+import { PhaseTimings } from './metrics';
+import { createResultsFile, getMeasurements, measurementsToCsv, parseResultsFile, RESULTS_FORMAT, RESULTS_VERSION } from './resultsFile';
+
+const ENVIRONMENT = { userAgent: 'test', platform: 'test', language: 'en', hardwareConcurrency: 1 };
+
+// A measurement of two runs with fixed timings
+function measurement(engineId: string, rowCount = 100): BenchmarkMeasurement {
+  const samples: PhaseTimings[] = [
+    { dataGeneration: 1, pdfCreation: 10, workerOverhead: 2, total: 13, mainThreadBlocking: 0 },
+    { dataGeneration: 1.5, pdfCreation: 12, workerOverhead: 2, total: 15.5, mainThreadBlocking: 0.25 }
+  ];
+
+  return {
+    engineId,
+    config: {
+      rowCount,
+      options: { compress: true },
+      warmupRuns: 1,
+      measuredRuns: 2,
+      execution: 'worker',
+      startMode: 'warm',
+      transport: 'binary'
+    },
+    samples,
+    summary: summarizePhases(samples),
+    firstRun: samples[0],
+    memory: [
+      { source: 'jsHeap', before: 1000, after: 3000, pdfSize: 500 },
+      { pdfSize: 510 }
+    ],
+    pdfSize: 510
+  };
+}
+
+function comparison(...measurements: BenchmarkMeasurement[]): ComparisonResult {
+  return {
+    config: { ...measurements[0].config },
+    startedAt: '2024-01-01T00:00:00.000Z',
+    runs: [
+      ...measurements.map(m => ({ engineId: m.engineId, status: 'completed' as const, measurement: m })),
+      { engineId: 'typst', status: 'failed', error: 'Could not load the compiler' }
+    ]
+  };
+}
+
+describe('parseResultsFile', () => {
+  it('reads back an exported file', () => {
+    const file = createResultsFile({ comparison: comparison(measurement('pdflib')) }, ENVIRONMENT);
+    expect(parseResultsFile(JSON.stringify(file))).toEqual(file);
+    expect(file).toMatchObject({ format: RESULTS_FORMAT, version: RESULTS_VERSION, environment: ENVIRONMENT });
+  });
+
+  it('rejects text that is not a results export', () => {
+    expect(() => parseResultsFile('{')).toThrow('Results file is not valid JSON');
+    expect(() => parseResultsFile('null')).toThrow('File is not a PDF benchmark results export');
+    expect(() => parseResultsFile('{"format":"other"}')).toThrow('File is not a PDF benchmark results export');
+  });
+
+  it('rejects versions newer than this app writes', () => {
+    const text = JSON.stringify({ format: RESULTS_FORMAT, version: RESULTS_VERSION + 1 });
+    expect(() => parseResultsFile(text)).toThrow(`Unsupported results file version ${RESULTS_VERSION + 1}`);
+  });
+
+  it('rejects malformed results', () => {
+    const parse = (content: object) => () => parseResultsFile(JSON.stringify({ format: RESULTS_FORMAT, version: 1, ...content }));
+    expect(parse({ benchmark: {} })).toThrow('Results file has a malformed benchmark');
+    expect(parse({ comparison: { runs: 'none' } })).toThrow('Results file has a malformed comparison');
+    expect(parse({ comparisons: [{ runs: [] }, null] })).toThrow('Results file has malformed comparisons');
+    expect(parse({ sweep: {} })).toThrow('Results file has a malformed sweep');
+  });
+});
+
+describe('getMeasurements', () => {
+  it('collects the benchmark, every completed comparison run and the sweep points', () => {
+    const single = measurement('pdfme');
+    const compared = [measurement('pdflib'), measurement('pdfmake')];
+    const laterComparison = measurement('pdflib', 1000);
+    const point = measurement('pdfmake', 10);
+
+    const measurements = getMeasurements({
+      benchmark: single,
+      comparison: comparison(...compared),
+      comparisons: [comparison(laterComparison)],
+      sweep: { engineId: 'pdfmake', config: point.config, points: [point], status: 'completed' }
+    });
+
+    expect(measurements).toEqual([single, ...compared, laterComparison, point]);
+  });
+
+  it('is empty for an empty file', () => {
+    expect(getMeasurements({})).toEqual([]);
+  });
+});
+
+describe('measurementsToCsv', () => {
+  it('writes a line per measured run under a header', () => {
+    const lines = measurementsToCsv([measurement('pdflib')]).trimEnd().split('\n');
+    const header = lines[0].split(',');
+    const row = (line: string) => Object.fromEntries(header.map((name, i) => [name, line.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)[i]]));
+
+    expect(lines).toHaveLength(3);
+    expect(row(lines[1])).toMatchObject({
+      engine: 'pdflib',
+      rowCount: '100',
+      seed: '',
+      options: '"{""compress"":true}"',
+      startMode: 'warm',
+      run: '1',
+      totalMs: '13',
+      pdfSizeBytes: '500',
+      memorySource: 'jsHeap',
+      memoryBeforeBytes: '1000',
+      memoryAfterBytes: '3000',
+      pageCount: ''
+    });
+    expect(row(lines[2])).toMatchObject({ run: '2', totalMs: '15.5', mainThreadBlockingMs: '0.25', pdfSizeBytes: '510', memorySource: '' });
+  });
+
+  it('quotes fields with separators', () => {
+    const csv = measurementsToCsv([measurement('pdflib')]);
+    expect(csv).toContain(',"Name (text), Age (integer), Email (text), Occupation (text)",');
+  });
+});
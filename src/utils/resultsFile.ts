@@ -0,0 +1,195 @@
+/**
+ * Export and import of benchmark results as JSON and CSV files
+ */
+import { DEFAULT_SCHEMA, describeSchema } from '../generators/dataset';
+import type { BenchmarkMeasurement, ComparisonResult, SweepResult } from './benchmarkRunner';
+import { collectEnvironment, EnvironmentInfo } from './environment';
+import { PHASES } from './metrics';
+import type { PdfStructure } from './pdfStructure';
+
+// Marker identifying files written by this app
+export const RESULTS_FORMAT = 'pdf-benchmark-results';
+export const RESULTS_VERSION = 1;
+
+export interface ResultsFile {
+  format: typeof RESULTS_FORMAT;
+  version: number;
+  exportedAt: string;
+  environment: EnvironmentInfo;
+  // A single engine's benchmark
+  benchmark?: BenchmarkMeasurement;
+  comparison?: ComparisonResult;
+  // One comparison per row count, as written by the command-line runner
+  comparisons?: ComparisonResult[];
+  sweep?: SweepResult;
+}
+
+// Results a file can carry, without its metadata
+export type ResultsContent = Pick<ResultsFile, 'benchmark' | 'comparison' | 'comparisons' | 'sweep'>;
+
+/**
+ * Wrap results with the metadata needed to interpret them later
+ * @param results Benchmark, comparisons and/or sweep to export
+ * @param environment Machine the results were measured on; defaults to the current browser
+ */
+export function createResultsFile(results: ResultsContent, environment = collectEnvironment()): ResultsFile {
+  return {
+    format: RESULTS_FORMAT,
+    version: RESULTS_VERSION,
+    exportedAt: new Date().toISOString(),
+    environment,
+    ...results
+  };
+}
+
+/**
+ * Parse and validate the contents of an exported results file
+ * @param text JSON file contents
+ * @returns The parsed results file
+ */
+export function parseResultsFile(text: string): ResultsFile {
+  let data: Partial<ResultsFile>;
+
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Results file is not valid JSON');
+  }
+
+  if (data?.format !== RESULTS_FORMAT) {
+    throw new Error('File is not a PDF benchmark results export');
+  }
+  if (typeof data.version !== 'number' || data.version > RESULTS_VERSION) {
+    throw new Error(`Unsupported results file version ${data.version}`);
+  }
+  if (data.benchmark && !Array.isArray(data.benchmark.samples)) {
+    throw new Error('Results file has a malformed benchmark');
+  }
+  if (data.comparison && !Array.isArray(data.comparison.runs)) {
+    throw new Error('Results file has a malformed comparison');
+  }
+  if (data.comparisons && !(Array.isArray(data.comparisons) && data.comparisons.every(c => Array.isArray(c?.runs)))) {
+    throw new Error('Results file has malformed comparisons');
+  }
+  if (data.sweep && !Array.isArray(data.sweep.points)) {
+    throw new Error('Results file has a malformed sweep');
+  }
+
+  return data as ResultsFile;
+}
+
+/**
+ * Collect every measurement contained in a results file
+ * @param file Results file
+ */
+export function getMeasurements(file: ResultsContent): BenchmarkMeasurement[] {
+  const comparisons = [...(file.comparison ? [file.comparison] : []), ...(file.comparisons ?? [])];
+  const fromComparisons = comparisons.flatMap(comparison => (
+    comparison.runs.flatMap(run => (run.measurement ? [run.measurement] : []))
+  ));
+  return [...(file.benchmark ? [file.benchmark] : []), ...fromComparisons, ...(file.sweep?.points ?? [])];
+}
+
+// Quote a CSV field when it contains separators, quotes or line breaks
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Structure of the final run's PDF, repeated on every run's line
+const STRUCTURE_COLUMNS: { header: string; value: (structure: PdfStructure) => string | number }[] = [
+  { header: 'pdfVersion', value: structure => structure.version },
+  { header: 'pageCount', value: structure => structure.pageCount },
+  { header: 'objectCount', value: structure => structure.objectCount },
+  { header: 'objectStreams', value: structure => structure.objectStreamCount },
+  { header: 'xrefStream', value: structure => String(structure.xrefStream) },
+  { header: 'fonts', value: structure => structure.fonts.length },
+  { header: 'embeddedFonts', value: structure => structure.fonts.filter(font => font.embedded).length },
+  { header: 'streams', value: structure => structure.streams.count },
+  { header: 'deflatedStreams', value: structure => structure.streams.deflated },
+  { header: 'streamBytes', value: structure => structure.streams.bytes },
+  { header: 'deflatedStreamBytes', value: structure => structure.streams.deflatedBytes },
+  { header: 'inflatedStreamBytes', value: structure => structure.streams.inflatedBytes }
+];
+
+/**
+ * Flatten measurements to CSV with one line per measured run
+ * @param measurements Measurements to flatten
+ * @returns CSV text with a header line
+ */
+export function measurementsToCsv(measurements: BenchmarkMeasurement[]): string {
+  const header = [
+    'engine', 'rowCount', 'columns', 'seed', 'options', 'execution', 'startMode', 'transport', 'warmupRuns', 'measuredRuns', 'run',
+    ...PHASES.map(({ key }) => `${key}Ms`),
+    'pdfSizeBytes', 'memorySource', 'memoryBeforeBytes', 'memoryAfterBytes',
+    ...STRUCTURE_COLUMNS.map(({ header }) => header)
+  ];
+  const lines = [header.join(',')];
+
+  for (const measurement of measurements) {
+    const { engineId, config, samples, memory, pdfSize, structure } = measurement;
+
+    samples.forEach((sample, i) => {
+      const memorySample = memory?.[i];
+
+      lines.push([
+        engineId,
+        config.rowCount,
+        describeSchema(config.schema ?? DEFAULT_SCHEMA),
+        config.schema?.seed ?? '',
+        JSON.stringify(config.options),
+        config.execution ?? '',
+        config.startMode ?? '',
+        config.transport ?? '',
+        config.warmupRuns,
+        config.measuredRuns,
+        i + 1,
+        ...PHASES.map(({ key }) => sample[key] ?? ''),
+        memorySample?.pdfSize ?? pdfSize,
+        memorySample?.source ?? '',
+        memorySample?.before ?? '',
+        memorySample?.after ?? '',
+        ...STRUCTURE_COLUMNS.map(({ value }) => (structure ? value(structure) : ''))
+      ].map(csvField).join(','));
+    });
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Offer text content to the user as a file download
+ * @param content File contents
+ * @param filename Suggested file name
+ * @param type MIME type of the content
+ */
+export function downloadTextFile(content: string, filename: string, type: string): void {
+  const blobUrl = URL.createObjectURL(new Blob([content], { type }));
+  const downloadLink = document.createElement('a');
+
+  downloadLink.href = blobUrl;
+  downloadLink.download = filename;
+  document.body.appendChild(downloadLink); // Required for Firefox
+  downloadLink.click();
+  document.body.removeChild(downloadLink);
+  URL.revokeObjectURL(blobUrl);
+}
+
+/**
+ * Download results as a JSON file with full raw samples and configuration
+ * @param results Benchmark, comparisons and/or sweep to export
+ * @param name Base file name without extension
+ */
+export function exportResultsJson(results: ResultsContent, name: string): void {
+  const file = createResultsFile(results);
+  downloadTextFile(JSON.stringify(file, null, 2), `${name}.json`, 'application/json');
+}
+
+/**
+ * Download results as a flattened CSV file
+ * @param results Benchmark, comparisons and/or sweep to export
+ * @param name Base file name without extension
+ */
+export function exportResultsCsv(results: ResultsContent, name: string): void {
+  downloadTextFile(measurementsToCsv(getMeasurements(results)), `${name}.csv`, 'text/csv');
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { formatRowCount, geometricSeries, parseRowCount, parseRowCountList, resolveRowCounts } from './rowCounts';
+
+describe('parseRowCount', () => {
+  it('reads plain numbers and k/m suffixes', () => {
+    expect(parseRowCount('500')).toBe(500);
+    expect(parseRowCount(' 1k ')).toBe(1_000);
+    expect(parseRowCount('2.5K')).toBe(2_500);
+    expect(parseRowCount('1 m')).toBe(1_000_000);
+  });
+
+  it('rejects other text', () => {
+    expect(() => parseRowCount('ten')).toThrow('Invalid row count "ten"');
+    expect(() => parseRowCount('-5')).toThrow('Invalid row count');
+    expect(() => parseRowCount('1g')).toThrow('Invalid row count');
+  });
+
+  it('rejects counts that round to zero', () => {
+    expect(() => parseRowCount('0.4')).toThrow('Row count must be at least 1, got "0.4"');
+  });
+});
+
+describe('parseRowCountList', () => {
+  it('sorts, deduplicates and accepts several separators', () => {
+    expect(parseRowCountList('10k, 100;1k 100\n10')).toEqual([10, 100, 1_000, 10_000]);
+  });
+
+  it('needs at least one row count', () => {
+    expect(() => parseRowCountList(' , ')).toThrow('Enter at least one row count');
+  });
+
+  it('reports the first invalid entry', () => {
+    expect(() => parseRowCountList('10, lots, 100')).toThrow('Invalid row count "lots"');
+  });
+});
+
+describe('geometricSeries', () => {
+  it('spaces points evenly on a log scale, including both bounds', () => {
+    expect(geometricSeries(10, 10_000, 4)).toEqual([10, 100, 1_000, 10_000]);
+  });
+
+  it('drops points that round to the same count', () => {
+    expect(geometricSeries(1, 3, 10)).toEqual([1, 2, 3]);
+  });
+
+  it('has only the start below two points', () => {
+    expect(geometricSeries(50, 500, 1)).toEqual([50]);
+  });
+
+  it('rejects reversed or empty ranges', () => {
+    expect(() => geometricSeries(100, 10, 3)).toThrow('Geometric range requires 1 ≤ start ≤ end');
+    expect(() => geometricSeries(0, 10, 3)).toThrow('Geometric range requires');
+  });
+});
+
+describe('resolveRowCounts', () => {
+  it('resolves both kinds of range', () => {
+    expect(resolveRowCounts({ kind: 'list', text: '1k, 10' })).toEqual([10, 1_000]);
+    expect(resolveRowCounts({ kind: 'geometric', start: 1, end: 100, points: 3 })).toEqual([1, 10, 100]);
+  });
+});
+
+describe('formatRowCount', () => {
+  it('abbreviates round thousands and millions', () => {
+    expect(formatRowCount(10_000)).toBe('10k');
+    expect(formatRowCount(2_500)).toBe('2.5k');
+    expect(formatRowCount(3_000_000)).toBe('3M');
+  });
+
+  it('writes other counts in full', () => {
+    expect(formatRowCount(999)).toBe('999');
+    expect(formatRowCount(1_234)).toBe((1_234).toLocaleString());
+  });
+});
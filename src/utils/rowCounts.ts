@@ -0,0 +1,98 @@
+/**
+ * Parsing and generation of row-count ranges for sweep runs
+ */
+
+export type RowCountRange =
+  | { kind: 'list'; text: string }
+  | { kind: 'geometric'; start: number; end: number; points: number };
+
+export const DEFAULT_ROW_COUNT_RANGE: RowCountRange = {
+  kind: 'list',
+  text: '10, 100, 1k, 10k, 50k'
+};
+
+// Multipliers for the suffixes accepted in row-count lists
+const SUFFIXES: Record<string, number> = { '': 1, k: 1_000, m: 1_000_000 };
+
+/**
+ * Parse a single row count such as "500", "1k" or "2.5k"
+ * @param token Row count with an optional k/m suffix
+ * @returns The row count as a positive integer
+ */
+export function parseRowCount(token: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([km]?)$/i.exec(token.trim());
+  if (!match) {
+    throw new Error(`Invalid row count "${token.trim()}"`);
+  }
+
+  const value = Math.round(parseFloat(match[1]) * SUFFIXES[match[2].toLowerCase()]);
+  if (value < 1) {
+    throw new Error(`Row count must be at least 1, got "${token.trim()}"`);
+  }
+
+  return value;
+}
+
+/**
+ * Parse a comma or whitespace separated list of row counts
+ * @param text List such as "10, 100, 1k, 10k"
+ * @returns Distinct row counts in ascending order
+ */
+export function parseRowCountList(text: string): number[] {
+  const tokens = text.split(/[\s,;]+/).filter(Boolean);
+  if (tokens.length === 0) {
+    throw new Error('Enter at least one row count');
+  }
+
+  return normalize(tokens.map(parseRowCount));
+}
+
+/**
+ * Build a geometric series of row counts between two bounds (inclusive)
+ * @param start First row count
+ * @param end Last row count
+ * @param points Number of points in the series
+ * @returns Distinct rounded row counts in ascending order
+ */
+export function geometricSeries(start: number, end: number, points: number): number[] {
+  if (start < 1 || end < start) {
+    throw new Error('Geometric range requires 1 ≤ start ≤ end');
+  }
+  if (points < 2) {
+    return [Math.round(start)];
+  }
+
+  const ratio = Math.pow(end / start, 1 / (points - 1));
+  const series = Array.from({ length: points }, (_, i) => Math.round(start * Math.pow(ratio, i)));
+
+  return normalize(series);
+}
+
+/**
+ * Resolve a range definition to the row counts it covers
+ * @param range List or geometric range
+ */
+export function resolveRowCounts(range: RowCountRange): number[] {
+  return range.kind === 'list'
+    ? parseRowCountList(range.text)
+    : geometricSeries(range.start, range.end, range.points);
+}
+
+// Sort ascending and drop duplicates
+function normalize(rowCounts: number[]): number[] {
+  return [...new Set(rowCounts)].sort((a, b) => a - b);
+}
+
+/**
+ * Format a row count compactly, e.g. 10000 as "10k"
+ * @param rowCount Row count
+ */
+export function formatRowCount(rowCount: number): string {
+  if (rowCount >= 1_000_000 && rowCount % 100_000 === 0) {
+    return `${rowCount / 1_000_000}M`;
+  }
+  if (rowCount >= 1_000 && rowCount % 100 === 0) {
+    return `${rowCount / 1_000}k`;
+  }
+  return rowCount.toLocaleString();
+}
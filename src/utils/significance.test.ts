@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { bootstrapMedianCI, compareSamples, formatPValue, mannWhitneyU } from './significance';
+
+describe('bootstrapMedianCI', () => {
+  const samples = [12, 15, 11, 14, 13, 16, 12, 15, 14, 13];
+
+  it('brackets the median', () => {
+    const interval = bootstrapMedianCI(samples);
+    expect(interval.estimate).toBe(13.5);
+    expect(interval.confidence).toBe(0.95);
+    expect(interval.low).toBeLessThanOrEqual(interval.estimate);
+    expect(interval.high).toBeGreaterThanOrEqual(interval.estimate);
+    expect(interval.low).toBeGreaterThanOrEqual(11);
+    expect(interval.high).toBeLessThanOrEqual(16);
+  });
+
+  it('gives the same interval every time', () => {
+    expect(bootstrapMedianCI(samples)).toEqual(bootstrapMedianCI(samples));
+  });
+
+  it('narrows at a lower confidence', () => {
+    const wide = bootstrapMedianCI(samples, 0.99);
+    const narrow = bootstrapMedianCI(samples, 0.5);
+    expect(narrow.high - narrow.low).toBeLessThanOrEqual(wide.high - wide.low);
+  });
+
+  it('collapses to the value for a single sample', () => {
+    expect(bootstrapMedianCI([42])).toEqual({ estimate: 42, low: 42, high: 42, confidence: 0.95 });
+  });
+});
+
+describe('mannWhitneyU', () => {
+  it('uses the exact distribution for small samples without ties', () => {
+    // Every value of the first set is below the second: U = 0, p = 2 / C(6, 3)
+    const result = mannWhitneyU([1, 2, 3], [4, 5, 6]);
+    expect(result).toEqual({ u: 0, pValue: 0.1, exact: true });
+  });
+
+  it('gives U of the first set', () => {
+    expect(mannWhitneyU([4, 5, 6], [1, 2, 3]).u).toBe(9);
+    expect(mannWhitneyU([1, 4], [2, 3]).u).toBe(2);
+  });
+
+  it('falls back to the normal approximation with ties', () => {
+    const result = mannWhitneyU([1, 2, 2, 3, 4], [2, 3, 5, 6, 7]);
+    expect(result.exact).toBe(false);
+    expect(result.u).toBe(4.5);
+    expect(result.pValue).toBeGreaterThan(0.05);
+    expect(result.pValue).toBeLessThan(1);
+  });
+
+  it('falls back to the normal approximation for large samples', () => {
+    const a = Array.from({ length: 30 }, (_, i) => i);
+    const b = Array.from({ length: 30 }, (_, i) => i + 100);
+    const result = mannWhitneyU(a, b);
+    expect(result.exact).toBe(false);
+    expect(result.u).toBe(0);
+    expect(result.pValue).toBeLessThan(0.001);
+  });
+
+  it('finds no difference between identical values', () => {
+    expect(mannWhitneyU([5, 5, 5], [5, 5, 5])).toEqual({ u: 4.5, pValue: 1, exact: false });
+  });
+
+  it('has nothing to test with an empty set', () => {
+    expect(mannWhitneyU([], [1, 2])).toEqual({ u: NaN, pValue: 1, exact: false });
+  });
+});
+
+describe('compareSamples', () => {
+  const fast = [10, 11, 12, 13, 14, 15];
+  const slow = [20, 21, 22, 23, 24, 25];
+
+  it('judges the first set against the second', () => {
+    expect(compareSamples(fast, slow).verdict).toBe('faster');
+    expect(compareSamples(slow, fast).verdict).toBe('slower');
+  });
+
+  it('reports no difference above the significance level', () => {
+    expect(compareSamples([10, 20, 30], [15, 25, 35]).verdict).toBe('no-difference');
+    expect(compareSamples(fast, slow, 0.001)).toMatchObject({ verdict: 'no-difference', alpha: 0.001 });
+  });
+});
+
+describe('formatPValue', () => {
+  it('rounds to three decimals and floors tiny values', () => {
+    expect(formatPValue(0.04321)).toBe('p = 0.043');
+    expect(formatPValue(0.0001)).toBe('p < 0.001');
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Significance testing for comparing two sets of timing samples
+ */
+import { createRandom } from './random';
+import { percentile } from './statistics';
+
+export type SignificanceVerdict = 'faster' | 'slower' | 'no-difference';
+
+export interface ConfidenceInterval {
+  estimate: number;
+  low: number;
+  high: number;
+  confidence: number;
+}
+
+export interface MannWhitneyResult {
+  u: number;
+  pValue: number;
+  // Whether the p-value comes from the exact distribution or the normal approximation
+  exact: boolean;
+}
+
+export interface SignificanceResult extends MannWhitneyResult {
+  // Verdict for the first sample set relative to the second
+  verdict: SignificanceVerdict;
+  alpha: number;
+}
+
+export const SIGNIFICANCE_LABELS: Record<SignificanceVerdict, string> = {
+  faster: 'Faster',
+  slower: 'Slower',
+  'no-difference': 'No significant difference'
+};
+
+// Largest group size for which the exact U distribution is computed
+const EXACT_LIMIT = 20;
+
+function median(values: number[]): number {
+  return percentile([...values].sort((a, b) => a - b), 50);
+}
+
+/**
+ * Percentile bootstrap confidence interval for the median
+ *
+ * Resampling uses a fixed seed so the interval is stable across renders.
+ * @param samples Raw sample values
+ * @param confidence Confidence level, e.g. 0.95
+ * @param iterations Number of bootstrap resamples
+ */
+export function bootstrapMedianCI(samples: number[], confidence = 0.95, iterations = 2000): ConfidenceInterval {
+  const estimate = median(samples);
+
+  if (samples.length < 2) {
+    return { estimate, low: estimate, high: estimate, confidence };
+  }
+
+  const random = createRandom(0x5eed);
+  const medians = new Array<number>(iterations);
+  const resample = new Array<number>(samples.length);
+
+  for (let i = 0; i < iterations; i++) {
+    for (let j = 0; j < samples.length; j++) {
+      resample[j] = samples[Math.floor(random() * samples.length)];
+    }
+    medians[i] = median(resample);
+  }
+
+  medians.sort((a, b) => a - b);
+  const tail = ((1 - confidence) / 2) * 100;
+
+  return {
+    estimate,
+    low: percentile(medians, tail),
+    high: percentile(medians, 100 - tail),
+    confidence
+  };
+}
+
+// Ranks of the combined samples, averaging ties; also returns the tie-group sizes
+function rankWithTies(values: number[]): { ranks: number[]; tieSizes: number[] } {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  const tieSizes: number[] = [];
+
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) {
+      j++;
+    }
+
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      ranks[order[k].index] = averageRank;
+    }
+    if (j > i) {
+      tieSizes.push(j - i + 1);
+    }
+    i = j + 1;
+  }
+
+  return { ranks, tieSizes };
+}
+
+// Number of arrangements giving each U value for group sizes n1 and n2 (no ties)
+function exactUCounts(n1: number, n2: number): number[] {
+  // counts[i][j] holds the distribution for group sizes i and j
+  let previousRow: number[][] = Array.from({ length: n2 + 1 }, () => [1]);
+
+  for (let i = 1; i <= n1; i++) {
+    const row: number[][] = [[1]];
+    for (let j = 1; j <= n2; j++) {
+      const counts = new Array<number>(i * j + 1).fill(0);
+      // The largest value belongs to group 1 (adds j to U) or to group 2 (adds nothing)
+      previousRow[j].forEach((count, u) => { counts[u + j] += count; });
+      row[j - 1].forEach((count, u) => { counts[u] += count; });
+      row.push(counts);
+    }
+    previousRow = row;
+  }
+
+  return previousRow[n2];
+}
+
+// Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided Mann–Whitney U test
+ *
+ * Uses the exact distribution for small samples without ties, otherwise the
+ * normal approximation with tie and continuity corrections.
+ * @param a First sample set
+ * @param b Second sample set
+ * @returns U statistic of the first set and the two-sided p-value
+ */
+export function mannWhitneyU(a: number[], b: number[]): MannWhitneyResult {
+  const n1 = a.length;
+  const n2 = b.length;
+
+  if (n1 === 0 || n2 === 0) {
+    return { u: NaN, pValue: 1, exact: false };
+  }
+
+  const { ranks, tieSizes } = rankWithTies([...a, ...b]);
+  const rankSum = ranks.slice(0, n1).reduce((sum, rank) => sum + rank, 0);
+  const u = rankSum - (n1 * (n1 + 1)) / 2;
+
+  if (tieSizes.length === 0 && n1 <= EXACT_LIMIT && n2 <= EXACT_LIMIT) {
+    const counts = exactUCounts(n1, n2);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const lower = counts.slice(0, u + 1).reduce((sum, count) => sum + count, 0) / total;
+    const upper = counts.slice(u).reduce((sum, count) => sum + count, 0) / total;
+
+    return { u, pValue: Math.min(1, 2 * Math.min(lower, upper)), exact: true };
+  }
+
+  const n = n1 + n2;
+  const tieCorrection = tieSizes.reduce((sum, t) => sum + t ** 3 - t, 0) / (n * (n - 1));
+  const sigma = Math.sqrt(((n1 * n2) / 12) * (n + 1 - tieCorrection));
+  const mean = (n1 * n2) / 2;
+
+  if (sigma === 0) {
+    return { u, pValue: 1, exact: false };
+  }
+
+  const z = Math.max(Math.abs(u - mean) - 0.5, 0) / sigma;
+  return { u, pValue: Math.min(1, 2 * (1 - normalCdf(z))), exact: false };
+}
+
+/**
+ * Decide whether one set of timings is significantly faster or slower than another
+ * @param a Timings being judged
+ * @param b Timings compared against
+ * @param alpha Significance level
+ */
+export function compareSamples(a: number[], b: number[], alpha = 0.05): SignificanceResult {
+  const test = mannWhitneyU(a, b);
+  let verdict: SignificanceVerdict = 'no-difference';
+
+  if (test.pValue < alpha) {
+    // U below its mean means values from `a` tend to be smaller, i.e. faster
+    verdict = test.u < (a.length * b.length) / 2 ? 'faster' : 'slower';
+  }
+
+  return { ...test, verdict, alpha };
+}
+
+/**
+ * Format a p-value compactly
+ * @param pValue p-value between 0 and 1
+ */
+export function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`;
+}
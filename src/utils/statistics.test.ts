@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { percentile, summarize } from './statistics';
+
+describe('percentile', () => {
+  it('interpolates between neighbouring values', () => {
+    expect(percentile([10, 20, 30, 40], 50)).toBe(25);
+    expect(percentile([10, 20, 30, 40], 95)).toBeCloseTo(38.5);
+  });
+
+  it('returns the extremes at 0 and 100', () => {
+    expect(percentile([1, 2, 3], 0)).toBe(1);
+    expect(percentile([1, 2, 3], 100)).toBe(3);
+  });
+
+  it('is NaN without values', () => {
+    expect(percentile([], 50)).toBeNaN();
+  });
+});
+
+describe('summarize', () => {
+  it('describes unsorted samples', () => {
+    expect(summarize([4, 1, 3, 2, 5])).toEqual({
+      count: 5,
+      min: 1,
+      max: 5,
+      mean: 3,
+      median: 3,
+      p95: 4.8,
+      stdDev: Math.sqrt(2.5)
+    });
+  });
+
+  it('has no spread for a single sample', () => {
+    expect(summarize([7])).toMatchObject({ count: 1, min: 7, max: 7, median: 7, stdDev: 0 });
+  });
+
+  it('is NaN in every field but the count without samples', () => {
+    const summary = summarize([]);
+    expect(summary.count).toBe(0);
+    for (const value of [summary.min, summary.max, summary.mean, summary.median, summary.p95, summary.stdDev]) {
+      expect(value).toBeNaN();
+    }
+  });
+});
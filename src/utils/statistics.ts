@@ -0,0 +1,56 @@
+/**
+ * Descriptive statistics for benchmark samples
+ */
+
+export interface SummaryStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p95: number;
+  stdDev: number;
+}
+
+/**
+ * Get a percentile of already sorted values using linear interpolation
+ * @param sorted Values sorted in ascending order
+ * @param p Percentile between 0 and 100
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return NaN;
+  }
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Summarize a set of samples
+ * @param samples Raw sample values
+ * @returns Summary statistics; every field is NaN when there are no samples
+ */
+export function summarize(samples: number[]): SummaryStats {
+  const count = samples.length;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mean = samples.reduce((sum, value) => sum + value, 0) / count;
+
+  // Sample standard deviation (Bessel's correction), 0 for a single sample
+  const variance = count > 1
+    ? samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1)
+    : 0;
+
+  return {
+    count,
+    min: count > 0 ? sorted[0] : NaN,
+    max: count > 0 ? sorted[count - 1] : NaN,
+    mean,
+    median: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    stdDev: count > 0 ? Math.sqrt(variance) : NaN
+  };
+}
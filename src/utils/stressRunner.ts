@@ -0,0 +1,154 @@
+/**
+ * Concurrent generation stress test measuring throughput under parallel load
+ */
+import type { EngineOptionValues, PdfEngine } from '../engines/types';
+import type { DatasetSchema } from '../generators/dataset';
+import type { PdfTransport } from '../workers/protocol';
+import { describeFailure, RunStatus } from './benchmarkRunner';
+import { generatePdf, setWorkerPoolSize } from './pdfService';
+import { summarize, SummaryStats } from './statistics';
+
+export interface StressConfig {
+  rowCount: number;
+  options: EngineOptionValues;
+  // Number of generations in flight at the same time, each on its own worker
+  concurrency: number;
+  // Number of documents generated in total
+  documents: number;
+  // Start every worker with one untimed generation before the measured load
+  warmup: boolean;
+  transport: PdfTransport;
+  // Limit for each generation in milliseconds; no limit when unset
+  timeoutMs?: number;
+  // Columns of the generated table; the default report when unset
+  schema?: DatasetSchema;
+}
+
+export interface StressFailure {
+  error: string;
+  count: number;
+}
+
+export interface StressResult {
+  engineId: string;
+  config: StressConfig;
+  // ISO timestamp of when the measured load started
+  startedAt: string;
+  status: RunStatus;
+  // Wall-clock time from the first request to the last response
+  duration: number;
+  completed: number;
+  // Failed generations grouped by error message
+  failures: StressFailure[];
+  // Completed documents per second
+  throughput: number;
+  // Time from request to response of every completed generation, in completion order
+  latencies: number[];
+  latency: SummaryStats;
+}
+
+export interface StressProgress {
+  completed: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Default concurrency: one generation per logical core the browser reports
+ */
+export function defaultConcurrency(): number {
+  return navigator.hardwareConcurrency || 4;
+}
+
+/**
+ * Run generations with a fixed number in flight until the total is reached
+ *
+ * Workers come from the engine's pool, which is enlarged to the concurrency
+ * for the duration of the test so every worker stays warm between documents.
+ * Failed and timed-out generations are counted and the load continues;
+ * cancelling stops starting new documents and abandons those in flight.
+ * @param engine Engine to stress
+ * @param config Row count, concurrency and number of documents
+ * @param onProgress Optional callback invoked whenever a generation finishes
+ * @param signal Optional signal that cancels the test
+ * @returns Promise that resolves to throughput, latency distribution and failures
+ */
+export async function runStress(
+  engine: PdfEngine,
+  config: StressConfig,
+  onProgress?: (progress: StressProgress) => void,
+  signal?: AbortSignal
+): Promise<StressResult> {
+  if (config.concurrency < 1 || config.documents < 1) {
+    throw new Error('Concurrency and document count must be at least 1');
+  }
+
+  const settings = {
+    startMode: 'warm' as const,
+    transport: config.transport,
+    timeoutMs: config.timeoutMs,
+    schema: config.schema,
+    signal
+  };
+  const lanes = Array.from({ length: Math.min(config.concurrency, config.documents) }, (_, i) => i);
+  const latencies: number[] = [];
+  const failures = new Map<string, number>();
+  let status: RunStatus = 'completed';
+  let started = 0;
+
+  setWorkerPoolSize(engine, config.concurrency);
+
+  try {
+    if (config.warmup) {
+      await Promise.all(lanes.map(() => generatePdf(engine, config.rowCount, config.options, settings)));
+    }
+
+    const startedAt = new Date().toISOString();
+    const startTime = performance.now();
+
+    // Each lane keeps one generation in flight until every document has been started
+    const runLane = async () => {
+      while (started < config.documents && !signal?.aborted) {
+        started++;
+        const requestTime = performance.now();
+
+        try {
+          await generatePdf(engine, config.rowCount, config.options, settings);
+          latencies.push(performance.now() - requestTime);
+        } catch (err) {
+          const failure = describeFailure(err, config);
+          if (failure.status === 'cancelled') {
+            status = 'cancelled';
+            return;
+          }
+          failures.set(failure.error, (failures.get(failure.error) ?? 0) + 1);
+        }
+
+        onProgress?.({
+          completed: latencies.length,
+          failed: [...failures.values()].reduce((sum, count) => sum + count, 0),
+          total: config.documents
+        });
+      }
+    };
+
+    await Promise.all(lanes.map(runLane));
+    const duration = performance.now() - startTime;
+
+    return {
+      engineId: engine.id,
+      config,
+      startedAt,
+      status: signal?.aborted ? 'cancelled' : status,
+      duration,
+      completed: latencies.length,
+      failures: [...failures].map(([error, count]) => ({ error, count })),
+      throughput: duration > 0 ? latencies.length / (duration / 1000) : 0,
+      latencies,
+      latency: summarize(latencies)
+    };
+  } finally {
+    // Return the pool to its usual size so the extra workers are released
+    setWorkerPoolSize(engine);
+  }
+}
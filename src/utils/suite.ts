@@ -0,0 +1,71 @@
+/**
+ * Benchmark suites run without the UI, by the command-line runner and the browser automation hook
+ */
+import { engines } from '../engines/registry';
+import type { PdfEngine } from '../engines/types';
+import { ComparisonConfig, ComparisonResult, runComparison } from './benchmarkRunner';
+import type { ResultsContent } from './resultsFile';
+
+export interface BenchmarkSuite extends Omit<ComparisonConfig, 'rowCount'> {
+  // Every engine is compared at each row count, smallest first
+  rowCounts: number[];
+  // Ids of the engines to run; every engine when unset
+  engineIds?: string[];
+}
+
+// Settings used for anything a suite leaves out
+export const DEFAULT_SUITE_SETTINGS: Omit<BenchmarkSuite, 'rowCounts'> = {
+  warmupRuns: 1,
+  measuredRuns: 5,
+  execution: 'worker',
+  startMode: 'cold',
+  transport: 'binary'
+};
+
+// Look up the engines a suite runs, in the order given; every engine when no ids are given
+export function resolveEngines(engineIds?: string[]): PdfEngine[] {
+  if (!engineIds) {
+    return engines;
+  }
+
+  return engineIds.map(id => {
+    const engine = engines.find(candidate => candidate.id === id);
+    if (!engine) {
+      throw new Error(`Unknown engine "${id}"; available: ${engines.map(candidate => candidate.id).join(', ')}`);
+    }
+    return engine;
+  });
+}
+
+/**
+ * Run an engine comparison at every row count of a suite
+ * @param suite Row counts, engines and run settings
+ * @param onComparison Optional callback invoked after each row count
+ * @param signal Optional signal that cancels the suite
+ * @returns Promise that resolves to one comparison per row count
+ */
+export async function runSuite(
+  suite: BenchmarkSuite,
+  onComparison?: (comparison: ComparisonResult) => void,
+  signal?: AbortSignal
+): Promise<ComparisonResult[]> {
+  const { rowCounts, engineIds, ...config } = suite;
+  const suiteEngines = resolveEngines(engineIds);
+  const comparisons: ComparisonResult[] = [];
+
+  for (const rowCount of [...rowCounts].sort((a, b) => a - b)) {
+    const comparison = await runComparison(suiteEngines, { ...config, rowCount }, undefined, signal);
+    comparisons.push(comparison);
+    onComparison?.(comparison);
+  }
+
+  return comparisons;
+}
+
+/**
+ * Shape suite results for a results file; a single row count is written as a plain comparison so the app can open it
+ * @param comparisons Comparisons returned by runSuite
+ */
+export function toResultsContent(comparisons: ComparisonResult[]): ResultsContent {
+  return comparisons.length === 1 ? { comparison: comparisons[0] } : { comparisons };
+}
@@ -0,0 +1,57 @@
+/**
+ * Pool of persistent workers shared by every engine
+ */
+
+export interface PooledWorker {
+  worker: Worker;
+  // True when the worker was started for this request and has not loaded its modules yet
+  fresh: boolean;
+}
+
+export interface WorkerPool {
+  // Take an idle worker, or start a new one when none is idle
+  acquire: () => PooledWorker;
+  // Return a healthy worker for reuse; it is terminated if the pool is already full
+  release: (worker: Worker) => void;
+  // Terminate a worker that must not be reused, such as one that crashed
+  discard: (worker: Worker) => void;
+  // Terminate every idle worker so the next request starts cold
+  clear: () => void;
+  // Change how many idle workers are kept, terminating any beyond the new limit
+  setMaxIdle: (maxIdle: number) => void;
+  idleCount: () => number;
+}
+
+/**
+ * Create a pool that keeps up to maxIdle started workers for reuse
+ * @param createWorker Function that starts a new worker
+ * @param maxIdle Maximum number of idle workers kept alive
+ */
+export function createWorkerPool(createWorker: () => Worker, maxIdle: number): WorkerPool {
+  const idle: Worker[] = [];
+
+  return {
+    acquire: () => {
+      const worker = idle.pop();
+      return worker ? { worker, fresh: false } : { worker: createWorker(), fresh: true };
+    },
+    release: (worker) => {
+      if (idle.length < maxIdle) {
+        idle.push(worker);
+      } else {
+        worker.terminate();
+      }
+    },
+    discard: (worker) => {
+      worker.terminate();
+    },
+    clear: () => {
+      idle.splice(0).forEach(worker => worker.terminate());
+    },
+    setMaxIdle: (size) => {
+      maxIdle = size;
+      idle.splice(maxIdle).forEach(worker => worker.terminate());
+    },
+    idleCount: () => idle.length
+  };
+}
@@ -13,3 +13,7 @@ declare module "worker-loader!*" {
   }
   export default WebpackWorker;
 }
+
+declare module "pdfjs-dist/build/pdf.worker.mjs" {
+  export const WorkerMessageHandler: unknown;
+}
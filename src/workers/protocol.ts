@@ -0,0 +1,181 @@
+/**
+ * Typed message protocol shared by the main thread and every PDF worker
+ */
+import type { EngineOptionValues } from '../engines/types';
+import type { DatasetSchema } from '../generators/dataset';
+
+// How the finished PDF crosses the worker boundary
+export type PdfTransport = 'binary' | 'base64';
+
+// Message sent from the main thread to start a generation
+export interface GenerateRequest {
+  rowCount: number;
+  // Columns of the table the rows are generated for
+  schema: DatasetSchema;
+  options: EngineOptionValues;
+  transport: PdfTransport;
+}
+
+// Named steps a worker can time; engines report the ones their library exposes separately.
+// pdf-lib and pdfmake time layout on its own; pdfme and Typst lay out inside the single call
+// that writes the PDF, so for them it is part of serialization
+export type WorkerPhase =
+  | 'init'
+  | 'fonts'
+  | 'dataGeneration'
+  | 'documentBuild'
+  | 'layout'
+  | 'serialization'
+  | 'encoding';
+
+export type WorkerPhaseTimings = Partial<Record<WorkerPhase, number>>;
+
+// Timings measured inside the worker
+export interface WorkerMetrics {
+  dataGenerationTime: number;
+  totalTime: number;
+  phases: WorkerPhaseTimings;
+  // Wall-clock time (timeOrigin + now) at which the response was posted, to measure transfer
+  postedAt: number;
+}
+
+// Message sent from a worker back to the main thread; data is a base64 string or transferred bytes
+export type WorkerResponse =
+  | { success: true; data: string | Uint8Array; metrics: WorkerMetrics }
+  | { success: false; error: string };
+
+export interface PhaseTimer {
+  // Start timing a step; call the returned function when the step ends
+  start: (phase: WorkerPhase) => () => void;
+  // Time a synchronous step
+  time: <T>(phase: WorkerPhase, step: () => T) => T;
+  // Time an asynchronous step
+  timeAsync: <T>(phase: WorkerPhase, step: () => Promise<T>) => Promise<T>;
+  phases: WorkerPhaseTimings;
+}
+
+// Builds the PDF for a request, timing its steps with the timer
+export type PdfGenerator = (request: GenerateRequest, timer: PhaseTimer) => Promise<Uint8Array>;
+
+/**
+ * Create a timer that accumulates durations per phase
+ */
+export function createPhaseTimer(): PhaseTimer {
+  const phases: WorkerPhaseTimings = {};
+
+  const start = (phase: WorkerPhase) => {
+    const startTime = performance.now();
+    return () => {
+      phases[phase] = (phases[phase] ?? 0) + performance.now() - startTime;
+    };
+  };
+
+  return {
+    start,
+    time: (phase, step) => {
+      const stop = start(phase);
+      try {
+        return step();
+      } finally {
+        stop();
+      }
+    },
+    timeAsync: async (phase, step) => {
+      const stop = start(phase);
+      try {
+        return await step();
+      } finally {
+        stop();
+      }
+    },
+    phases
+  };
+}
+
+/**
+ * Register the worker's generator as the handler for incoming requests
+ *
+ * The generator returns the raw PDF bytes; transport (transferring the bytes
+ * or encoding them to base64), total timing and the one-off module
+ * initialization time are handled here for every engine.
+ * @param generate Function that creates the PDF for a request, timing its steps with the timer
+ */
+export function serveGenerateRequests(generate: PdfGenerator): void {
+  // Time from worker start until its modules (and their libraries) finished evaluating
+  let moduleInitTime: number | undefined = performance.now();
+
+  self.addEventListener('message', async (event: MessageEvent<GenerateRequest>) => {
+    let response: WorkerResponse;
+    let transfer: Transferable[] = [];
+
+    try {
+      const startTime = performance.now();
+      const timer = createPhaseTimer();
+
+      if (moduleInitTime !== undefined) {
+        timer.phases.init = moduleInitTime;
+        moduleInitTime = undefined;
+      }
+
+      const pdfBytes = await generate(event.data, timer);
+      let data: string | Uint8Array;
+
+      if (event.data.transport === 'base64') {
+        data = timer.time('encoding', () => arrayBufferToBase64(pdfBytes));
+      } else {
+        data = ownBuffer(pdfBytes);
+        transfer = [data.buffer];
+      }
+      const totalTime = performance.now() - startTime;
+
+      response = {
+        success: true,
+        data,
+        metrics: {
+          dataGenerationTime: timer.phases.dataGeneration ?? 0,
+          totalTime,
+          phases: timer.phases,
+          postedAt: performance.timeOrigin + performance.now()
+        }
+      };
+    } catch (error) {
+      console.error('Error in worker:', error);
+      response = { success: false, error: describeError(error) };
+    }
+
+    self.postMessage(response, { transfer });
+  });
+}
+
+// Transferring detaches the whole buffer, so copy views that share one with other data
+function ownBuffer(bytes: Uint8Array): Uint8Array {
+  return bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength ? bytes : bytes.slice();
+}
+
+// Turn anything thrown inside a worker into a readable message
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return `${error.name}: ${error.message}`;
+  }
+  if (typeof error === 'string') {
+    return error;
+  }
+  return JSON.stringify(error);
+}
+
+/**
+ * Convert PDF bytes to a base64 string
+ * @param buffer PDF bytes
+ * @returns Base64 encoded string
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  const chunkSize = 0x8000; // Process in chunks to avoid call stack issues
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return btoa(binary);
+}
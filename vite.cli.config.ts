@@ -0,0 +1,33 @@
+import { defineConfig } from 'vite'
+
+// Bundles the headless benchmark runners into Node scripts
+export default defineConfig({
+  // Static assets belong to the app, not the scripts
+  publicDir: false,
+  resolve: {
+    // The default pdf.js build relies on JavaScript features Node 20 lacks
+    alias: [
+      { find: /^pdfjs-dist$/, replacement: 'pdfjs-dist/legacy/build/pdf.mjs' },
+      { find: /^pdfjs-dist\/build\//, replacement: 'pdfjs-dist/legacy/build/' }
+    ]
+  },
+  build: {
+    ssr: true,
+    outDir: 'dist-cli',
+    target: 'node20',
+    sourcemap: true,
+    rollupOptions: {
+      input: {
+        benchmark: 'src/cli/benchmark.ts',
+        browserBenchmark: 'src/cli/browserBenchmark.ts',
+        verify: 'src/cli/verify.ts'
+      }
+    }
+  },
+  ssr: {
+    // Bundle the PDF libraries too: some are imported by paths only a bundler resolves
+    noExternal: true,
+    // Tooling that drives the browser stays a regular import from node_modules
+    external: ['playwright-core', 'vite']
+  }
+})
@@ -1,12 +1,25 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Cross-origin isolation lets measureUserAgentSpecificMemory count worker memory;
+// credentialless still allows the Typst compiler to be fetched from its CDN
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless'
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
   worker: {
     format: 'es'
   },
+  server: {
+    headers: crossOriginIsolationHeaders
+  },
+  preview: {
+    headers: crossOriginIsolationHeaders
+  },
   build: {
     target: 'esnext',
     sourcemap: true
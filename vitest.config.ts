@@ -0,0 +1,11 @@
+import { defineConfig, mergeConfig } from 'vitest/config'
+import cliConfig from './vite.cli.config'
+
+// Tests run in Node, so modules resolve the way they do for the command-line scripts
+export default mergeConfig(cliConfig, defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Engine checks generate and parse whole reports
+    testTimeout: 60_000
+  }
+}))